@@ -0,0 +1,143 @@
+import { Page } from 'playwright';
+import { z } from 'zod';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { BrowserTool } from '../tools/browserTool.js';
+import { pageProvider } from '../tools/browserSession.js';
+import { getLogger } from '../services/logger.js';
+
+const logger = getLogger('navigator');
+
+export const NavigationStepSchema = z.object({
+  action: z
+    .enum(['navigate', 'click', 'fill', 'extract', 'done', 'fail'])
+    .describe('Browser action to take next; done once the results list is shown, fail if the search cannot be run'),
+  selector: z.string().optional().describe('Playwright selector, e.g. role=textbox[name="Brand name"] or text=Search'),
+  value: z.string().optional().describe('Text to type for fill'),
+  url: z.string().optional().describe('Absolute URL for navigate'),
+  reason: z.string().optional().describe('Short explanation of the step')
+});
+
+export type NavigationStep = z.infer<typeof NavigationStepSchema>;
+
+export interface NavigationOutcome {
+  success: boolean;
+  steps: number;
+  message: string;
+  url: string;
+}
+
+export interface LLMNavigatorOptions {
+  /** Maximum number of model turns before giving up */
+  maxSteps?: number;
+  /** Timeout for each browser action in milliseconds */
+  actionTimeout?: number;
+}
+
+const DEFAULT_MAX_STEPS = 12;
+const MAX_SNAPSHOT_CHARS = 12000;
+
+const SYSTEM_PROMPT = `You operate a web browser to run a trademark search and reach the list of search results.
+Each turn you get the goal, the steps taken so far, the current URL and an accessibility snapshot of the page.
+Reply with exactly one next step, either by calling the navigation_step tool or as a JSON object
+{"action": "...", "selector": "...", "value": "...", "url": "...", "reason": "..."}.
+Actions: navigate (url), click (selector), fill (selector, value), extract (selector, returns element text),
+done (the results list is displayed), fail (the search cannot be run).
+Use Playwright selectors built from the snapshot, such as role=button[name="Search"], role=textbox[name="Brand name"] or text=Advanced search.`;
+
+/**
+ * Parses the next step from a model reply, taken from its first tool call or
+ * from the first JSON object in its text so models without tool calling work too.
+ */
+export function parseNavigationStep(message: AIMessage): NavigationStep {
+  const call = message.tool_calls?.[0];
+  if (call) {
+    return NavigationStepSchema.parse(call.args);
+  }
+
+  const text = typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => ('text' in part && typeof part.text === 'string' ? part.text : '')).join('');
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) {
+    throw new Error('Reply contained no step');
+  }
+
+  return NavigationStepSchema.parse(JSON.parse(json[0]));
+}
+
+function describeGoal(params: TrademarkSearchParams, startUrl: string): string {
+  const lines = [
+    `Search ${startUrl} by ${params.searchType} for "${params.query}" and reach the results list.`
+  ];
+  if (params.country) lines.push(`Restrict results to country/office ${params.country}.`);
+  if (params.nice) lines.push(`Restrict results to Nice class ${params.nice}.`);
+  if (params.status) lines.push(`Restrict results to status ${params.status}.`);
+  return lines.join('\n');
+}
+
+/**
+ * Fallback for when the scripted search flow no longer matches the site: a chat
+ * model reads the page's accessibility snapshot and drives BrowserTool actions
+ * until the results list is shown or the step budget runs out.
+ */
+export class LLMNavigator {
+  constructor(private model: BaseChatModel, private options: LLMNavigatorOptions = {}) {}
+
+  async reachResults(page: Page, params: TrademarkSearchParams, startUrl: string): Promise<NavigationOutcome> {
+    const maxSteps = this.options.maxSteps ?? DEFAULT_MAX_STEPS;
+    const browser = new BrowserTool(pageProvider(page));
+    const history: string[] = [];
+    const model = typeof this.model.bindTools === 'function'
+      ? this.model.bindTools([{
+          name: 'navigation_step',
+          description: 'Take the next browser step',
+          schema: NavigationStepSchema
+        }])
+      : this.model;
+
+    logger.info(`🧭 Navigating with the model fallback (up to ${maxSteps} steps)...`);
+
+    for (let step = 1; step <= maxSteps; step++) {
+      const snapshot = await page.locator('body').ariaSnapshot({ timeout: 5000 }).catch(() => '(snapshot unavailable)');
+      const prompt = [
+        `Goal:\n${describeGoal(params, startUrl)}`,
+        `Steps so far:\n${history.length > 0 ? history.join('\n') : '(none)'}`,
+        `Current URL: ${page.url()}`,
+        `Accessibility snapshot:\n${snapshot.slice(0, MAX_SNAPSHOT_CHARS)}`
+      ].join('\n\n');
+
+      let next: NavigationStep;
+      try {
+        const reply = await model.invoke([new SystemMessage(SYSTEM_PROMPT), new HumanMessage(prompt)]);
+        next = parseNavigationStep(reply as AIMessage);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        history.push(`${step}. invalid reply: ${message}`);
+        logger.warn(`${step}/${maxSteps} invalid reply: ${message}`);
+        continue;
+      }
+
+      if (next.action === 'done' || next.action === 'fail') {
+        const success = next.action === 'done';
+        const message = next.reason || (success ? 'Results list reached' : 'Model gave up');
+        logger.log(success ? 'info' : 'warn', `${step}/${maxSteps} ${next.action}: ${message}`);
+        return { success, steps: step, message, url: page.url() };
+      }
+
+      const outcome = JSON.parse(await browser.callAction({
+        action: next.action,
+        selector: next.selector,
+        value: next.value,
+        url: next.url,
+        timeout: this.options.actionTimeout ?? 10000
+      }));
+      const detail = outcome.values ? `${outcome.message}: ${JSON.stringify(outcome.values).slice(0, 500)}` : outcome.message;
+      history.push(`${step}. ${next.action} ${next.selector ?? next.url ?? ''} -> ${outcome.success ? 'ok' : 'error'}: ${detail}`);
+      logger.info(`${step}/${maxSteps} ${next.action} ${next.selector ?? next.url ?? ''} (${outcome.success ? 'ok' : outcome.message})`);
+    }
+
+    return { success: false, steps: maxSteps, message: `Step budget of ${maxSteps} used up`, url: page.url() };
+  }
+}
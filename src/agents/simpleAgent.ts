@@ -1,120 +1,103 @@
-import { chromium } from 'playwright';
-import chalk from 'chalk';
 import { TrademarkSearchParams, SearchResults } from '../schemas/trademarkSchema.js';
-import { WIPOScraperTool } from '../tools/scraperTool.js';
-import { GeminiFormatter } from '../services/geminiFormatter.js';
+import { assertSourceSupports, getSource } from '../sources/index.js';
+import { ResultFormatter, createFormatter } from '../formatters/index.js';
 import { traceable } from 'langsmith/traceable';
+import { RecordingOptions, applyRecording, closeBrowserSession } from '../services/sessionRecorder.js';
+import { launchBrowser, newBrowserContext } from '../tools/browserSession.js';
+import { normalizeCountryFilter } from '../services/jurisdictions.js';
+import { getLogger } from '../services/logger.js';
+
+const logger = getLogger('agent');
+
+export interface SimpleWIPOAgentOptions {
+  /** Record the run's network traffic to, or replay it from, a directory */
+  recording?: RecordingOptions;
+  /** Turns raw records into results, defaults to the configured formatter */
+  formatter?: ResultFormatter;
+}
 
 export class SimpleWIPOAgent {
-  private scraper: WIPOScraperTool;
-  private formatter: GeminiFormatter;
+  private formatter: ResultFormatter;
 
-  constructor() {
-    this.scraper = new WIPOScraperTool();
-    this.formatter = new GeminiFormatter();
+  constructor(private options: SimpleWIPOAgentOptions = {}) {
+    this.formatter = options.formatter ?? createFormatter();
   }
 
   async search(params: TrademarkSearchParams): Promise<SearchResults | null> {
     return await traceable(
       async () => {
         let browser;
+        let context;
         try {
-          console.log(chalk.blue('🚀 Starting WIPO search...'));
+          params = normalizeCountryFilter(params);
+          const source = getSource(params.source);
+          assertSourceSupports(source, params);
+
+          logger.info('🚀 Starting WIPO search...');
 
           // Initialize browser
-          browser = await chromium.launch({
-            headless: process.env.HEADLESS !== 'false',
-            args: ['--disable-blink-features=AutomationControlled']
-          });
+          browser = await launchBrowser();
+          context = await newBrowserContext(browser);
 
-          const context = await browser.newContext({
-            userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            viewport: { width: 1920, height: 1080 }
-          });
+          await applyRecording(context, this.options.recording, params);
 
           const page = await context.newPage();
 
           // Step 1: Handle authentication/captcha
-          console.log(chalk.yellow('🔐 Handling authentication...'));
-          const authResult = await traceable(
+          logger.info('🔐 Handling authentication...');
+          await traceable(
             async () => {
-              return await this.scraper.callAction({
-                action: 'handleCaptcha',
-                page: page
-              });
+              return await source.authenticate(page);
             },
             { name: 'handle_authentication', tags: ['auth', 'captcha'] }
           )();
 
-          const authResponse = JSON.parse(authResult);
-          if (!authResponse.success) {
-            throw new Error(`Authentication failed: ${authResponse.message}`);
-          }
-
           // Step 2: Submit search
-          console.log(chalk.green(`🔍 Searching for: ${params.query}`));
-          const searchResult = await traceable(
+          logger.info(`🔍 Searching for: ${params.query}`);
+          const searchOutcome = await traceable(
             async () => {
-              return await this.scraper.callAction({
-                action: 'searchTrademarks',
-                page: page,
-                query: params.query
-              });
+              return await source.search(page, params);
             },
-            { name: 'submit_search', tags: ['search', 'wipo'] }
+            { name: 'submit_search', tags: ['search', source.id] }
           )();
 
-          const searchResponse = JSON.parse(searchResult);
-          if (!searchResponse.success) {
-            throw new Error(`Search failed: ${searchResponse.message}`);
-          }
-
           // Step 3: Extract results
-          console.log(chalk.cyan('📊 Extracting search results...'));
-          const extractResult = await traceable(
+          logger.info('📊 Extracting search results...');
+          const extraction = await traceable(
             async () => {
-              return await this.scraper.callAction({
-                action: 'extractResults',
-                page: page
-              });
+              return await source.extract(page, params.limit);
             },
             { name: 'extract_results', tags: ['extraction', 'parsing'] }
           )();
 
-          const extractResponse = JSON.parse(extractResult);
-          if (!extractResponse.success || !extractResponse.results) {
-            throw new Error(`Result extraction failed: ${extractResponse.message || 'No results found'}`);
-          }
-
           // Step 4: Format results with AI
-          console.log(chalk.magenta('🤖 Formatting results with AI...'));
+          logger.info(`🤖 Formatting results with ${this.formatter.name}...`);
           const formattedResults = await traceable(
             async () => {
-              return await this.formatter.formatResults(extractResponse.results);
+              return await this.formatter.formatResults(extraction.results);
             },
-            { name: 'format_results_with_ai', tags: ['ai', 'gemini', 'formatting'] }
+            { name: 'format_results_with_ai', tags: ['ai', this.formatter.name, 'formatting'] }
           )();
 
           // Step 5: Create final search results
           const searchResults: SearchResults = {
             query: params.query,
-            totalResults: formattedResults.length,
-            page: 1,
+            totalResults: extraction.totalResults,
+            page: extraction.page,
             results: formattedResults.slice(0, params.limit),
+            filters: searchOutcome.filters,
             searchTime: Date.now(),
             timestamp: new Date()
           };
 
-          console.log(chalk.green('✅ Search completed successfully!'));
+          logger.info('✅ Search completed successfully!');
           return searchResults;
 
         } catch (error) {
-          console.error(chalk.red('❌ Search failed:'), error instanceof Error ? error.message : 'Unknown error');
+          logger.error(`❌ Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
           return null;
         } finally {
-          if (browser) {
-            await browser.close();
-          }
+          await closeBrowserSession(browser, context);
         }
       },
       {
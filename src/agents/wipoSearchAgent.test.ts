@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { Browser } from 'playwright';
+import { configure } from '../config/config.js';
+import { RuleBasedFormatter } from '../formatters/index.js';
+import { SearchCache } from '../services/searchCache.js';
+import { applyRecording } from '../services/sessionRecorder.js';
+import { registerSource } from '../sources/index.js';
+import { TrademarkSource } from '../sources/trademarkSource.js';
+import { LLMNavigator } from './navigationAgent.js';
+import { WIPOSearchAgent, WIPOSearchError } from './wipoSearchAgent.js';
+
+// Recording needs a real context; the tests only check that the agent asks for it
+vi.mock('../services/sessionRecorder.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../services/sessionRecorder.js')>()),
+  applyRecording: vi.fn(async () => undefined)
+}));
+
+/**
+ * A browser whose single page records the actions taken on it.
+ */
+function stubBrowser() {
+  const actions: string[] = [];
+  const page = {
+    url: () => 'https://register.test/results',
+    locator: () => ({ ariaSnapshot: async () => '- textbox "Brand name"\n- button "Search"' }),
+    fill: async (selector: string, value: string) => { actions.push(`fill ${selector} ${value}`); },
+    click: async (selector: string) => { actions.push(`click ${selector}`); },
+    isClosed: () => false,
+    close: async () => undefined
+  };
+  const context = {
+    newPage: async () => page,
+    setDefaultTimeout: () => undefined,
+    close: async () => undefined
+  };
+  const browser = {
+    newContext: async () => context,
+    isConnected: () => true,
+    close: async () => undefined
+  };
+  return { browser: browser as unknown as Browser, actions };
+}
+
+/**
+ * A register whose scripted search always hits a changed layout.
+ */
+const stubSource: TrademarkSource = {
+  id: 'stub',
+  name: 'Stub register',
+  baseUrl: 'https://register.test',
+  capabilities: { searchTypes: ['brand'], filters: [] },
+  authenticate: async () => undefined,
+  search: async () => { throw new Error('Search input for brand search not found'); },
+  extract: async () => ({
+    results: [{ mark: 'NIKE', owner: 'Nike, Inc.', applicationNumber: '123', country: 'US', status: 'Registered', niceClasses: [25] }],
+    totalResults: 1,
+    page: 1
+  }),
+  getDetails: async () => ({})
+};
+
+function search(agent: WIPOSearchAgent, source = 'stub') {
+  return agent.search({ query: 'nike', searchType: 'brand', limit: 10, source });
+}
+
+beforeAll(() => {
+  registerSource('stub', () => stubSource);
+  registerSource('stub-ok', () => ({ ...stubSource, search: async () => ({ filters: [] }) }));
+  // Retries back off for seconds, so failures give up at once
+  configure({ 'agent.retryAttempts': '0' });
+});
+
+afterAll(() => {
+  configure();
+});
+
+describe('WIPOSearchAgent model navigation', () => {
+  it('hands a changed layout to the model and extracts the results it reaches', async () => {
+    const { browser, actions } = stubBrowser();
+    const model = new FakeListChatModel({ responses: [
+      '{"action": "fill", "selector": "role=textbox[name=\\"Brand name\\"]", "value": "nike"}',
+      '{"action": "click", "selector": "role=button[name=\\"Search\\"]"}',
+      '{"action": "done", "reason": "Results shown"}'
+    ] });
+    const agent = new WIPOSearchAgent({
+      browser,
+      navigator: new LLMNavigator(model, { maxSteps: 5 }),
+      formatter: new RuleBasedFormatter()
+    });
+
+    const results = await search(agent);
+
+    expect(actions).toEqual([
+      'fill role=textbox[name="Brand name"] nike',
+      'click role=button[name="Search"]'
+    ]);
+    expect(results.results.map(result => result.mark)).toEqual(['NIKE']);
+    expect(results.filters).toEqual([{ filter: 'searchType', value: 'brand', applied: true }]);
+  });
+
+  it('fails with a layout error when the model gives up', async () => {
+    const { browser } = stubBrowser();
+    const model = new FakeListChatModel({ responses: ['{"action": "fail", "reason": "No search form"}'] });
+    const agent = new WIPOSearchAgent({
+      browser,
+      navigator: new LLMNavigator(model, { maxSteps: 5 }),
+      formatter: new RuleBasedFormatter()
+    });
+
+    const error = await search(agent).catch(error => error);
+
+    expect(error).toBeInstanceOf(WIPOSearchError);
+    expect(error.code).toBe('LAYOUT_CHANGED');
+    expect(error.message).toContain('No search form');
+  });
+});
+
+describe('WIPOSearchAgent recording', () => {
+  it('skips the cache so a recorded run reaches the pages', async () => {
+    const { browser } = stubBrowser();
+    const cache = {
+      get: vi.fn(async () => ({ results: { query: 'nike', results: [], totalResults: 0, page: 1, searchTime: 0, timestamp: new Date() } })),
+      set: vi.fn(async () => undefined)
+    };
+    const agent = new WIPOSearchAgent({
+      browser,
+      cache: cache as unknown as SearchCache,
+      recording: { mode: 'record', dir: 'recordings/nike' },
+      formatter: new RuleBasedFormatter()
+    });
+
+    const results = await search(agent, 'stub-ok');
+
+    expect(results.fromCache).toBeUndefined();
+    expect(results.results.map(result => result.mark)).toEqual(['NIKE']);
+    expect(applyRecording).toHaveBeenCalledWith(expect.anything(), { mode: 'record', dir: 'recordings/nike' }, expect.objectContaining({ query: 'nike' }));
+    expect(cache.get).not.toHaveBeenCalled();
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,24 @@
-import { StateGraph, MemorySaver, Annotation } from '@langchain/langgraph';
+import { randomUUID } from 'crypto';
+import { StateGraph, MemorySaver, Annotation, START, END } from '@langchain/langgraph';
 import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import chalk from 'chalk';
+import { Browser, BrowserContext, Page } from 'playwright';
 import {
+  AgentErrorCode,
   AgentState,
+  AgentStep,
   TrademarkSearchParams,
   SearchResults
 } from '../schemas/trademarkSchema.js';
-import { WIPOScraperTool } from '../tools/scraperTool.js';
-import { GeminiFormatter } from '../services/geminiFormatter.js';
+import { config } from '../config/config.js';
+import { DEFAULT_SOURCE_ID, TrademarkSource, assertSourceSupports, getSource } from '../sources/index.js';
+import { ResultFormatter, createFormatter } from '../formatters/index.js';
+import { RecordingOptions, applyRecording, closeBrowserSession } from '../services/sessionRecorder.js';
+import { CacheParser, SearchCache } from '../services/searchCache.js';
+import { ImageStore, assertImageFile } from '../services/imageStore.js';
+import { normalizeCountryFilter } from '../services/jurisdictions.js';
+import { LLMNavigator } from './navigationAgent.js';
+import { launchBrowser, newBrowserContext } from '../tools/browserSession.js';
+import { getLogger, updateLogContext, withLogContext } from '../services/logger.js';
 
 const GraphState = Annotation.Root({
   messages: Annotation<BaseMessage[]>({
@@ -39,55 +49,293 @@ const GraphState = Annotation.Root({
 
 type GraphStateType = typeof GraphState.State;
 
+const logger = getLogger('agent');
+
+const DETAILS_CONCURRENCY = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+type RecoverableStep = Extract<AgentStep, 'authenticate' | 'search' | 'extractResults'>;
+type GraphNode = (state: GraphStateType) => Promise<Partial<GraphStateType>>;
+
+/**
+ * Raised when a search cannot be completed, carrying the classified reason and
+ * the step that failed after all retries were used.
+ */
+export class WIPOSearchError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AgentErrorCode,
+    public readonly step?: AgentStep,
+    public readonly attempts: number = 0
+  ) {
+    super(message);
+    this.name = 'WIPOSearchError';
+  }
+}
+
+/**
+ * Maps a step failure message onto the error classes the recovery node knows how to handle.
+ */
+export function classifyError(message: string): AgentErrorCode {
+  if (/captcha|altcha/i.test(message)) return 'CAPTCHA';
+  if (/target (page|context|browser)?.*closed|browser has been closed|disconnected|crashed/i.test(message)) return 'BROWSER_CLOSED';
+  if (/timeout|timed out/i.test(message)) return 'TIMEOUT';
+  if (/not found|no results|failed to extract|selector|locator|strict mode violation/i.test(message)) return 'LAYOUT_CHANGED';
+  return 'UNKNOWN';
+}
+
+/**
+ * Overlays the non-empty fields of a details page onto a raw result record.
+ */
+function mergeDetails(record: any, details: any): any {
+  const merged = { ...record };
+
+  for (const field of ['registrationNumber', 'filingDate', 'registrationDate', 'expiryDate', 'goodsServices']) {
+    if (typeof details[field] === 'string' && details[field].trim().length > 0) {
+      merged[field] = details[field].trim();
+    }
+  }
+
+  // The result list often truncates classes, so keep the union of both sources
+  if (Array.isArray(details.niceClasses) && details.niceClasses.length > 0) {
+    const existing = (record.niceClasses || []).map((n: string | number) => parseInt(String(n))).filter((n: number) => !isNaN(n));
+    merged.niceClasses = Array.from(new Set([...existing, ...details.niceClasses])).sort((a, b) => a - b);
+  }
+
+  return merged;
+}
+
+export interface WIPOSearchAgentOptions {
+  /** Record the run's network traffic to, or replay it from, a directory */
+  recording?: RecordingOptions;
+  /** Serve repeated searches from, and store new results in, this cache */
+  cache?: SearchCache;
+  /** Skip cached results but still store the fresh ones */
+  refresh?: boolean;
+  /** Run in a new context of this browser instead of launching one; the browser is left open */
+  browser?: Browser;
+  /** Let a chat model drive the search once when the scripted flow no longer matches the page */
+  navigator?: LLMNavigator;
+  /** Turns raw records into results, defaults to the configured formatter */
+  formatter?: ResultFormatter;
+  /** Where searches with `images` store result images, defaults to the configured image directory */
+  imageStore?: ImageStore;
+}
+
+export interface WIPOSearchRunOptions {
+  signal?: AbortSignal;
+  /** Called with the name of each workflow node as it finishes */
+  onStep?: (node: string) => void;
+}
+
+/** The nodes a successful search passes through, in order */
+export const WORKFLOW_STEPS = ['initialize', 'authenticate', 'search', 'extractResults', 'enrichDetails', 'formatResults'] as const;
+
 export class WIPOSearchAgent {
   private graph: any;
-  private scraper: WIPOScraperTool;
-  private formatter: GeminiFormatter;
+  private formatter: ResultFormatter;
   private checkpointer: MemorySaver;
 
-  constructor() {
-    this.scraper = new WIPOScraperTool();
-    this.formatter = new GeminiFormatter();
+  constructor(private options: WIPOSearchAgentOptions = {}) {
+    this.formatter = options.formatter ?? createFormatter();
     this.checkpointer = new MemorySaver();
     this.graph = this.buildGraph();
   }
 
-  private buildGraph() {
-    const workflow = new StateGraph(GraphState);
+  /**
+   * Closes the search's context, and its browser unless the browser was shared with the agent.
+   */
+  private async closeSession(browser: Browser | undefined, context: BrowserContext | undefined): Promise<void> {
+    await closeBrowserSession(this.options.browser ? undefined : browser, context);
+  }
 
-    // Add nodes to the graph
-    workflow.addNode("initialize", this.initializeBrowser.bind(this));
-    workflow.addNode("authenticate", this.handleAuthentication.bind(this));
-    workflow.addNode("search", this.submitSearch.bind(this));
-    workflow.addNode("extractResults", this.extractResults.bind(this));
-    workflow.addNode("formatResults", this.formatResults.bind(this));
+  private parser(): CacheParser {
+    return { formatter: this.formatter.name, model: this.formatter.model };
+  }
 
-    // Set entry point
-    workflow.setEntryPoint("initialize");
+  private sourceFor(state: GraphStateType): TrademarkSource {
+    return getSource(state.agentState.searchParams.source);
+  }
 
-    // Define the graph flow
-    workflow.addEdge("initialize", "authenticate");
-    workflow.addEdge("authenticate", "search");
-    workflow.addEdge("search", "extractResults");
-    workflow.addEdge("extractResults", "formatResults");
+  private buildGraph() {
+    const workflow = new StateGraph(GraphState)
+      // Add nodes to the graph
+      .addNode("initialize", this.initializeBrowser.bind(this))
+      .addNode("authenticate", this.recoverable("authenticate", this.handleAuthentication))
+      .addNode("search", this.recoverable("search", this.submitSearch))
+      .addNode("navigate", this.navigateWithModel.bind(this))
+      .addNode("extractResults", this.recoverable("extractResults", this.extractResults))
+      .addNode("enrichDetails", this.enrichDetails.bind(this))
+      .addNode("formatResults", this.formatResults.bind(this))
+      .addNode("recover", this.recoverFromError.bind(this))
+      .addNode("fail", this.failSearch.bind(this))
+      // Define the graph flow
+      .addEdge(START, "initialize")
+      .addEdge("initialize", "authenticate")
+      // Failed steps divert to the recovery node
+      .addConditionalEdges(
+        "authenticate",
+        (state: GraphStateType) => state.agentState.error ? "recover" : "search",
+        ["search", "recover"]
+      )
+      // A changed layout hands the search to the model fallback, once per run
+      .addConditionalEdges(
+        "search",
+        (state: GraphStateType) => {
+          const { error, navigation } = state.agentState;
+          if (!error) return "extractResults";
+          // The model drives the page with clicks and typing, so it cannot upload an image
+          const canNavigate = this.options.navigator && !navigation && state.agentState.searchParams.searchType !== 'image';
+          return error.code === 'LAYOUT_CHANGED' && canNavigate ? "navigate" : "recover";
+        },
+        ["extractResults", "navigate", "recover"]
+      )
+      .addConditionalEdges(
+        "navigate",
+        (state: GraphStateType) => state.agentState.error ? "recover" : "extractResults",
+        ["extractResults", "recover"]
+      )
+      // Details pages are only visited when requested
+      .addConditionalEdges(
+        "extractResults",
+        (state: GraphStateType) => {
+          if (state.agentState.error) return "recover";
+          return state.agentState.searchParams.details ? "enrichDetails" : "formatResults";
+        },
+        ["enrichDetails", "formatResults", "recover"]
+      )
+      // Recovery either resumes at the step it chose or gives up
+      .addConditionalEdges(
+        "recover",
+        (state: GraphStateType) => {
+          if (!state.agentState.error?.retry) return "fail";
+          return state.agentState.currentStep as RecoverableStep;
+        },
+        ["authenticate", "search", "extractResults", "fail"]
+      )
+      .addEdge("enrichDetails", "formatResults")
+      .addEdge("formatResults", END)
+      .addEdge("fail", END);
 
     return workflow.compile({ checkpointer: this.checkpointer });
   }
 
+  /**
+   * Wraps a step so a thrown error is recorded in the agent state for the
+   * recovery node instead of aborting the graph.
+   */
+  private recoverable(step: RecoverableStep, node: GraphNode): GraphNode {
+    return async (state: GraphStateType) => {
+      try {
+        const update = await node.call(this, state);
+        return {
+          ...update,
+          agentState: {
+            ...state.agentState,
+            ...update.agentState,
+            currentStep: step,
+            error: undefined
+          }
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`⚠️  Step ${step} failed: ${message}`);
+
+        return {
+          agentState: {
+            ...state.agentState,
+            currentStep: 'error',
+            error: { message, code: classifyError(message), step, retry: false }
+          },
+          messages: [new AIMessage(`Step ${step} failed: ${message}`)]
+        };
+      }
+    };
+  }
+
+  private async recoverFromError(state: GraphStateType): Promise<Partial<GraphStateType>> {
+    const error = state.agentState.error!;
+    const failedStep = error.step as RecoverableStep;
+    const attempt = state.agentState.retryCount + 1;
+
+    const giveUp = (reason: string): Partial<GraphStateType> => {
+      logger.warn(`🛑 Not retrying ${failedStep}: ${reason}`);
+      return {
+        agentState: {
+          ...state.agentState,
+          error: { ...error, retry: false }
+        }
+      };
+    };
+
+    if (attempt > config.agent.retryAttempts) {
+      return giveUp(`retry limit of ${config.agent.retryAttempts} reached`);
+    }
+    if (!state.browser?.isConnected() || !state.context) {
+      return giveUp('browser is no longer available');
+    }
+
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    logger.warn(`🔁 Recovering from ${error.code} in ${failedStep} (attempt ${attempt}/${config.agent.retryAttempts}) in ${delay}ms...`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+
+    // A CAPTCHA loop, a changed layout or a dead page are best retried on a fresh page
+    let page = state.page;
+    let resumeStep = failedStep;
+    const reopen = !page || page.isClosed() || error.code === 'CAPTCHA' || error.code === 'LAYOUT_CHANGED' || error.code === 'BROWSER_CLOSED';
+
+    if (reopen) {
+      await page?.close().catch(() => undefined);
+      page = await state.context.newPage();
+      logger.debug('Reopened browser page');
+
+      // The results list lived on the old page, so the search has to be repeated
+      if (failedStep === 'extractResults') {
+        resumeStep = 'search';
+      }
+    }
+
+    return {
+      page,
+      agentState: {
+        ...state.agentState,
+        currentStep: resumeStep,
+        retryCount: attempt,
+        error: { ...error, retry: true }
+      },
+      messages: [new AIMessage(`Retrying ${resumeStep} after ${error.code} (attempt ${attempt})`)]
+    };
+  }
+
+  private async failSearch(state: GraphStateType): Promise<Partial<GraphStateType>> {
+    logger.error(`❌ Giving up: ${state.agentState.error?.message}`);
+
+    await this.closeSession(state.browser, state.context).catch(() => undefined);
+
+    return {
+      agentState: {
+        ...state.agentState,
+        currentStep: 'error'
+      }
+    };
+  }
+
   private async initializeBrowser(state: GraphStateType): Promise<Partial<GraphStateType>> {
-    console.log(chalk.blue('🚀 Initializing browser session...'));
+    logger.info('🚀 Initializing browser session...');
 
-    const browser = await chromium.launch({
-      headless: process.env.HEADLESS !== 'false',
-      args: ['--disable-blink-features=AutomationControlled']
-    });
+    const browser = this.options.browser ?? await launchBrowser();
+    const context = await newBrowserContext(browser);
 
-    const context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      viewport: { width: 1920, height: 1080 }
-    });
+    try {
+      await applyRecording(context, this.options.recording, state.agentState.searchParams);
+    } catch (error) {
+      await this.closeSession(browser, context);
+      throw error;
+    }
 
     const page = await context.newPage();
+    const sessionId = Math.random().toString(36).substring(7);
+    updateLogContext({ sessionId });
 
     return {
       browser,
@@ -96,7 +344,7 @@ export class WIPOSearchAgent {
       agentState: {
         ...state.agentState,
         browserSession: {
-          sessionId: Math.random().toString(36).substring(7),
+          sessionId,
           isAuthenticated: false
         }
       }
@@ -104,20 +352,11 @@ export class WIPOSearchAgent {
   }
 
   private async handleAuthentication(state: GraphStateType): Promise<Partial<GraphStateType>> {
-    console.log(chalk.yellow('🔐 Handling authentication...'));
+    logger.info('🔐 Handling authentication...');
 
     if (!state.page) throw new Error('Page not initialized');
 
-    const result = await this.scraper.callAction({
-      action: 'handleCaptcha',
-      page: state.page
-    });
-
-    const response = JSON.parse(result);
-
-    if (!response.success) {
-      throw new Error(response.message || 'Authentication failed');
-    }
+    await this.sourceFor(state).authenticate(state.page);
 
     return {
       agentState: {
@@ -132,77 +371,185 @@ export class WIPOSearchAgent {
   }
 
   private async submitSearch(state: GraphStateType): Promise<Partial<GraphStateType>> {
-    console.log(chalk.green(`🔍 Searching for: ${state.agentState.searchParams.query}`));
+    logger.info(`🔍 Searching for: ${state.agentState.searchParams.query}`);
 
     if (!state.page) throw new Error('Page not initialized');
 
-    const result = await this.scraper.callAction({
-      action: 'searchTrademarks',
-      page: state.page,
-      query: state.agentState.searchParams.query
-    });
-
-    const response = JSON.parse(result);
-
-    if (!response.success) {
-      throw new Error(response.message || 'Search failed');
-    }
+    const outcome = await this.sourceFor(state).search(state.page, state.agentState.searchParams);
 
     return {
+      agentState: {
+        ...state.agentState,
+        filters: outcome.filters
+      },
       messages: [new AIMessage(`Search submitted for: ${state.agentState.searchParams.query}`)]
     };
   }
 
+  /**
+   * Lets the navigator model reach the results list after the scripted search
+   * failed. Filters are passed on to the model but cannot be verified, so they
+   * are reported as not applied. A failure goes back to the search step's recovery.
+   */
+  private async navigateWithModel(state: GraphStateType): Promise<Partial<GraphStateType>> {
+    const params = state.agentState.searchParams;
+    const source = this.sourceFor(state);
+
+    try {
+      if (!state.page) throw new Error('Page not initialized');
+
+      const outcome = await this.options.navigator!.reachResults(state.page, params, source.baseUrl);
+      const navigation = { success: outcome.success, steps: outcome.steps, message: outcome.message };
+      if (!outcome.success) {
+        return {
+          agentState: {
+            ...state.agentState,
+            navigation,
+            currentStep: 'error',
+            error: { message: `Model navigation failed: ${outcome.message}`, code: 'LAYOUT_CHANGED', step: 'search', retry: false }
+          },
+          messages: [new AIMessage(`Model navigation failed after ${outcome.steps} steps: ${outcome.message}`)]
+        };
+      }
+
+      const unverified = (filter: 'country' | 'nice' | 'status', value?: string) =>
+        value ? [{ filter, value, applied: false, reason: 'Requested from the navigation model; not verified' }] : [];
+
+      return {
+        agentState: {
+          ...state.agentState,
+          navigation,
+          currentStep: 'navigate',
+          error: undefined,
+          filters: [
+            { filter: 'searchType', value: params.searchType, applied: true },
+            ...unverified('country', params.country),
+            ...unverified('nice', params.nice),
+            ...unverified('status', params.status)
+          ]
+        },
+        messages: [new AIMessage(`Model reached the results list in ${outcome.steps} steps`)]
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        agentState: {
+          ...state.agentState,
+          navigation: { success: false, steps: 0, message },
+          currentStep: 'error',
+          error: { message: `Model navigation failed: ${message}`, code: classifyError(message), step: 'search', retry: false }
+        }
+      };
+    }
+  }
+
   private async extractResults(state: GraphStateType): Promise<Partial<GraphStateType>> {
-    console.log(chalk.cyan('📊 Extracting search results...'));
+    logger.info('📊 Extracting search results...');
 
     if (!state.page) throw new Error('Page not initialized');
 
-    const result = await this.scraper.callAction({
-      action: 'extractResults',
-      page: state.page
-    });
+    const extraction = await this.sourceFor(state).extract(state.page, state.agentState.searchParams.limit);
 
-    const response = JSON.parse(result);
+    return {
+      agentState: {
+        ...state.agentState,
+        rawResults: extraction.results,
+        pagination: {
+          totalResults: extraction.totalResults,
+          page: extraction.page,
+          pageSize: extraction.pageSize
+        }
+      },
+      messages: [new AIMessage(`Extracted ${extraction.results.length} of ${extraction.totalResults} raw results`)]
+    };
+  }
+
+  private async enrichDetails(state: GraphStateType): Promise<Partial<GraphStateType>> {
+    const rawResults = state.agentState.rawResults || [];
+    const pending = rawResults
+      .map((record, index) => ({ record, index }))
+      .filter(({ record }) => typeof record.detailsUrl === 'string' && record.detailsUrl.length > 0);
 
-    if (!response.success || !response.results) {
-      throw new Error(response.message || 'Failed to extract results');
+    logger.info(`🔎 Fetching details for ${pending.length} of ${rawResults.length} results...`);
+
+    if (!state.context) throw new Error('Browser context not initialized');
+    if (pending.length === 0) {
+      return {
+        messages: [new AIMessage('No details pages to enrich')]
+      };
     }
 
+    const enriched = [...rawResults];
+    const context = state.context;
+    const source = this.sourceFor(state);
+    let failures = 0;
+
+    // Each worker drives its own page so several details pages load in parallel
+    const worker = async () => {
+      const page = await context.newPage();
+      try {
+        for (let next = pending.shift(); next; next = pending.shift()) {
+          try {
+            const details = await source.getDetails(page, next.record.detailsUrl);
+            enriched[next.index] = mergeDetails(next.record, details);
+          } catch (error) {
+            failures++;
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            logger.debug(`Details unavailable for ${next.record.mark || next.record.detailsUrl}: ${message}`);
+          }
+        }
+      } finally {
+        await page.close();
+      }
+    };
+
+    const workers = Math.min(DETAILS_CONCURRENCY, pending.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
     return {
       agentState: {
         ...state.agentState,
-        rawResults: response.results
+        rawResults: enriched
       },
-      messages: [new AIMessage(`Extracted ${response.results.length} raw results`)]
+      messages: [new AIMessage(`Enriched results from details pages (${failures} failed)`)]
     };
   }
 
   private async formatResults(state: GraphStateType): Promise<Partial<GraphStateType>> {
-    console.log(chalk.magenta('🤖 Formatting results with AI...'));
+    logger.info(`🤖 Formatting results with ${this.formatter.name}...`);
 
     if (!state.agentState.rawResults) {
       throw new Error('No raw results to format');
     }
 
-    // Format results with Gemini AI
+    // Format results with the configured formatter (rules or a model provider)
     const formattedResults = await this.formatter.formatResults(state.agentState.rawResults);
 
+    let results = formattedResults.slice(0, state.agentState.searchParams.limit);
+
+    // Images are downloaded while the browser context still holds the register's session
+    if (state.agentState.searchParams.images) {
+      if (!state.context) throw new Error('Browser context not initialized');
+      logger.info(`🖼️  Storing images of ${results.filter(result => result.imageUrl).length} results...`);
+      const stored = await (this.options.imageStore ?? new ImageStore()).storeResultImages(state.context, results);
+      if (stored.failures > 0) logger.warn(`⚠️  ${stored.failures} images could not be stored`);
+      results = stored.results;
+    }
+
     const searchResults: SearchResults = {
       query: state.agentState.searchParams.query,
-      totalResults: formattedResults.length,
-      page: 1,
-      results: formattedResults.slice(0, state.agentState.searchParams.limit),
+      totalResults: state.agentState.pagination?.totalResults ?? formattedResults.length,
+      page: state.agentState.pagination?.page ?? 1,
+      results,
+      filters: state.agentState.filters,
       searchTime: Date.now(),
       timestamp: new Date()
     };
 
-    console.log(chalk.green('✅ Search completed successfully!'));
+    logger.info('✅ Search completed successfully!');
 
     // Clean up browser
-    if (state.browser) {
-      await state.browser.close();
-    }
+    await this.closeSession(state.browser, state.context);
 
     return {
       agentState: {
@@ -213,59 +560,117 @@ export class WIPOSearchAgent {
     };
   }
 
-  async search(params: TrademarkSearchParams): Promise<SearchResults | null> {
-    try {
-      const initialState = {
-        messages: [new HumanMessage(`Search for trademark: ${params.query}`)],
-        agentState: {
-          searchParams: params,
-          currentStep: 'initialize' as const,
-          retryCount: 0
-        }
-      };
-
-      // Enhanced configuration for LangSmith tracing
-      const config = {
-        configurable: {
-          thread_id: `search_${Date.now()}`,
-          run_name: `WIPO Trademark Search: ${params.query}`
-        },
-        tags: [
-          'trademark-search',
-          'wipo',
-          'langgraph-workflow',
-          `query:${params.query}`,
-          `type:${params.searchType}`,
-          'web-scraping',
-          'browser-automation'
-        ],
-        metadata: {
-          query: params.query,
-          searchType: params.searchType,
-          limit: params.limit,
-          agent: 'WIPOSearchAgent',
-          workflow: 'trademark_search',
-          timestamp: new Date().toISOString(),
-          environment: process.env.NODE_ENV || 'development',
-          version: '1.0.0'
-        }
-      };
+  /**
+   * Runs the search workflow, stopping early when the optional signal is
+   * aborted and reporting each finished graph node to `onStep`. Resolves with
+   * the formatted results or rejects with a {@link WIPOSearchError} describing
+   * why the search failed, an UnsupportedSearchError when the source cannot
+   * run the requested search, an UnknownJurisdictionError for a country
+   * filter that matches no jurisdiction, or an Error for a missing or
+   * unsupported image file.
+   */
+  async search(params: TrademarkSearchParams, options: WIPOSearchRunOptions = {}): Promise<SearchResults> {
+    const runId = randomUUID();
+    return withLogContext({ runId }, () => this.runSearch(params, options, runId));
+  }
 
-      console.log(chalk.blue(`🎯 Starting LangGraph workflow for: ${params.query}`));
+  private async runSearch(requested: TrademarkSearchParams, options: WIPOSearchRunOptions, runId: string): Promise<SearchResults> {
+    const params = normalizeCountryFilter(requested);
+    assertSourceSupports(getSource(params.source), params);
+    if (params.searchType === 'image') await assertImageFile(params.image!);
+
+    // An image file may be edited between runs under the same name, so image searches are never cached.
+    // Recorded and replayed runs must reach the register's pages, so they bypass the cache too
+    const { refresh, recording } = this.options;
+    const cache = params.searchType === 'image' || recording ? undefined : this.options.cache;
+    if (cache && !refresh) {
+      const cached = await cache.get(params, this.parser());
+      if (cached) {
+        logger.info(`💾 Using cached results from ${cached.createdAt}`);
+        return { ...cached.results, fromCache: true };
+      }
+    }
 
-      const finalState = await this.graph.invoke(initialState, config);
+    const initialState = {
+      messages: [new HumanMessage(`Search for trademark: ${params.query}`)],
+      agentState: {
+        searchParams: params,
+        currentStep: 'initialize' as const,
+        retryCount: 0
+      }
+    };
 
-      if (finalState?.agentState?.searchResults) {
-        console.log(chalk.green(`🎉 LangGraph workflow completed successfully`));
-        return finalState.agentState.searchResults;
+    // Enhanced configuration for LangSmith tracing
+    const runConfig = {
+      signal: options.signal,
+      configurable: {
+        thread_id: `search_${runId}`,
+        run_name: `WIPO Trademark Search: ${params.query}`
+      },
+      tags: [
+        'trademark-search',
+        `source:${params.source || DEFAULT_SOURCE_ID}`,
+        'langgraph-workflow',
+        `query:${params.query}`,
+        `type:${params.searchType}`,
+        'web-scraping',
+        'browser-automation'
+      ],
+      metadata: {
+        query: params.query,
+        searchType: params.searchType,
+        source: params.source || DEFAULT_SOURCE_ID,
+        limit: params.limit,
+        agent: 'WIPOSearchAgent',
+        workflow: 'trademark_search',
+        timestamp: new Date().toISOString(),
+        environment: process.env.NODE_ENV || 'development',
+        version: '1.0.0'
       }
+    };
 
-      console.log(chalk.red('❌ Search failed: No results found'));
-      return null;
+    logger.info(`🎯 Starting LangGraph workflow for: ${params.query}`);
 
+    let finalState: GraphStateType;
+    try {
+      const updates = await this.graph.stream(initialState, { ...runConfig, streamMode: 'updates' });
+      for await (const update of updates) {
+        for (const node of Object.keys(update)) options.onStep?.(node);
+      }
+      finalState = (await this.graph.getState(runConfig)).values;
     } catch (error) {
-      console.error(chalk.red('❌ LangGraph workflow failed:'), error instanceof Error ? error.message : 'Unknown error');
-      return null;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`❌ LangGraph workflow failed: ${message}`);
+
+      // Steps outside the recovery path can still throw; close whatever browser they left behind
+      const snapshot = await this.graph.getState(runConfig).catch(() => null);
+      const browser: Browser | undefined = snapshot?.values?.browser;
+      const context: BrowserContext | undefined = snapshot?.values?.context;
+      await this.closeSession(browser, context).catch(() => undefined);
+
+      const code = options.signal?.aborted ? 'CANCELLED' : classifyError(message);
+      throw new WIPOSearchError(message, code, snapshot?.values?.agentState?.currentStep);
     }
+
+    if (finalState?.agentState?.searchResults) {
+      logger.info(`🎉 LangGraph workflow completed successfully`);
+
+      if (cache) {
+        await cache
+          .set(params, finalState.agentState.searchResults, finalState.agentState.rawResults, this.parser())
+          .catch(error => logger.warn(`⚠️  Could not cache results: ${error instanceof Error ? error.message : error}`));
+      }
+
+      return finalState.agentState.searchResults;
+    }
+
+    const error = finalState?.agentState?.error;
+    logger.error(`❌ Search failed: ${error?.message || 'No results found'}`);
+    throw new WIPOSearchError(
+      error?.message || 'Search finished without results',
+      error?.code || 'UNKNOWN',
+      error?.step,
+      finalState?.agentState?.retryCount ?? 0
+    );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+describe('config', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('falls back to the defaults at import when the environment is invalid', async () => {
+    vi.stubEnv('HEADLESS', 'yes');
+    vi.stubEnv('BROWSER_TIMEOUT', 'abc');
+
+    const { config } = await import('./config.js');
+
+    expect(config.browser.headless).toBe(true);
+    expect(config.browser.timeout).toBe(30000);
+  });
+
+  it('reports the invalid setting from configure', async () => {
+    vi.stubEnv('HEADLESS', 'yes');
+
+    const { configure } = await import('./config.js');
+
+    expect(() => configure()).toThrow('Invalid browser.headless from env HEADLESS');
+  });
+
+  it('applies CLI overrides over the environment', async () => {
+    vi.stubEnv('BROWSER_TIMEOUT', '45000');
+
+    const { configure } = await import('./config.js');
+
+    expect(configure().config.browser.timeout).toBe(45000);
+    expect(configure({ 'browser.timeout': '5000' }).config.browser.timeout).toBe(5000);
+  });
+});
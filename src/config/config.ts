@@ -1,49 +1,261 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 dotenv.config();
 
-const ConfigSchema = z.object({
-  HEADLESS: z.string().default('true'),
-  BROWSER_TIMEOUT: z.string().default('30000'),
-  RETRY_ATTEMPTS: z.string().default('3'),
-  USER_AGENT: z.string().default('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'),
-  VIEWPORT_WIDTH: z.string().default('1920'),
-  VIEWPORT_HEIGHT: z.string().default('1080'),
-  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info')
-});
-
-const rawConfig = {
-  HEADLESS: process.env.HEADLESS || 'true',
-  BROWSER_TIMEOUT: process.env.BROWSER_TIMEOUT || '30000',
-  RETRY_ATTEMPTS: process.env.RETRY_ATTEMPTS || '3',
-  USER_AGENT: process.env.USER_AGENT || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  VIEWPORT_WIDTH: process.env.VIEWPORT_WIDTH || '1920',
-  VIEWPORT_HEIGHT: process.env.VIEWPORT_HEIGHT || '1080',
-  LOG_LEVEL: (process.env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'info'
-};
-
-const validatedConfig = ConfigSchema.parse(rawConfig);
-
-export const config = {
+export const CONFIG_FILE_NAME = '.zxsearchrc.json';
+
+const BooleanSettingSchema = z.union([
+  z.boolean(),
+  z.enum(['true', 'false']).transform(value => value === 'true')
+]);
+const IntegerSettingSchema = z.coerce.number().int().positive();
+
+/**
+ * Every configurable value, keyed by its path in the config file, with the
+ * environment variable that overrides it. CLI flags override both.
+ */
+const SETTINGS = {
+  'browser.headless': { env: 'HEADLESS', schema: BooleanSettingSchema, default: true },
+  'browser.timeout': { env: 'BROWSER_TIMEOUT', schema: IntegerSettingSchema, default: 30000 },
+  'browser.userAgent': {
+    env: 'USER_AGENT',
+    schema: z.string().min(1),
+    default: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+  },
+  'browser.viewport.width': { env: 'VIEWPORT_WIDTH', schema: IntegerSettingSchema, default: 1920 },
+  'browser.viewport.height': { env: 'VIEWPORT_HEIGHT', schema: IntegerSettingSchema, default: 1080 },
+  'agent.retryAttempts': { env: 'RETRY_ATTEMPTS', schema: z.coerce.number().int().min(0), default: 3 },
+  'agent.logLevel': { env: 'LOG_LEVEL', schema: z.enum(['debug', 'info', 'warn', 'error']), default: 'info' },
+  'agent.logFormat': { env: 'LOG_FORMAT', schema: z.enum(['console', 'json']), default: 'console' },
+  'formatter.name': { env: 'FORMATTER', schema: z.enum(['gemini', 'openai', 'ollama', 'rules']), default: 'gemini' },
+  'formatter.model': { env: 'FORMATTER_MODEL', schema: z.string(), default: '' },
+  'formatter.ollamaUrl': { env: 'OLLAMA_BASE_URL', schema: z.string().url(), default: 'http://localhost:11434/v1' },
+  'cache.dir': { env: 'CACHE_DIR', schema: z.string().min(1), default: path.join(os.homedir(), '.cache', 'zx-ai-web-search') },
+  'cache.ttlHours': { env: 'CACHE_TTL_HOURS', schema: z.coerce.number().positive(), default: 24 },
+  'watch.dir': {
+    env: 'WATCH_DIR',
+    schema: z.string().min(1),
+    default: path.join(os.homedir(), '.local', 'share', 'zx-ai-web-search', 'watches')
+  },
+  'images.dir': {
+    env: 'IMAGES_DIR',
+    schema: z.string().min(1),
+    default: path.join(os.homedir(), '.local', 'share', 'zx-ai-web-search', 'images')
+  },
+  'images.uploadDir': {
+    env: 'IMAGE_UPLOAD_DIR',
+    schema: z.string().min(1),
+    default: path.join(os.homedir(), '.local', 'share', 'zx-ai-web-search', 'uploads')
+  },
+  'wipo.baseUrl': { env: 'WIPO_BASE_URL', schema: z.string().url(), default: 'https://branddb.wipo.int/branddb/en/' }
+} as const;
+
+export type SettingPath = keyof typeof SETTINGS;
+export type ConfigOrigin = 'default' | 'file' | 'env' | 'cli';
+export type ConfigOverrides = Partial<Record<SettingPath, unknown>>;
+
+export interface Config {
   browser: {
-    headless: validatedConfig.HEADLESS === 'true',
-    timeout: parseInt(validatedConfig.BROWSER_TIMEOUT),
-    userAgent: validatedConfig.USER_AGENT,
+    headless: boolean;
+    timeout: number;
+    userAgent: string;
     viewport: {
-      width: parseInt(validatedConfig.VIEWPORT_WIDTH),
-      height: parseInt(validatedConfig.VIEWPORT_HEIGHT)
-    }
-  },
+      width: number;
+      height: number;
+    };
+  };
   agent: {
-    retryAttempts: parseInt(validatedConfig.RETRY_ATTEMPTS),
-    logLevel: validatedConfig.LOG_LEVEL
-  },
+    retryAttempts: number;
+    logLevel: 'debug' | 'info' | 'warn' | 'error';
+    logFormat: 'console' | 'json';
+  };
+  formatter: {
+    name: 'gemini' | 'openai' | 'ollama' | 'rules';
+    /** Model name, empty for the formatter's default */
+    model: string;
+    ollamaUrl: string;
+  };
+  cache: {
+    dir: string;
+    ttlMs: number;
+  };
+  watch: {
+    dir: string;
+  };
+  images: {
+    dir: string;
+    /** The only directory HTTP and MCP clients may name logo files in */
+    uploadDir: string;
+  };
   wipo: {
-    baseUrl: 'https://branddb.wipo.int/branddb/en/',
-    searchEndpoint: '/search',
-    detailsEndpoint: '/details'
+    baseUrl: string;
+    searchEndpoint: string;
+    detailsEndpoint: string;
+  };
+}
+
+export interface ResolvedSetting {
+  path: SettingPath;
+  value: unknown;
+  origin: ConfigOrigin;
+  /** The file, environment variable or flag the value came from */
+  from?: string;
+}
+
+export interface ResolvedConfig {
+  config: Config;
+  settings: ResolvedSetting[];
+  file?: string;
+}
+
+/**
+ * Finds the config file: an explicit path, then $ZXSEARCH_CONFIG, then
+ * .zxsearchrc.json in the working directory or the home directory.
+ */
+function findConfigFile(explicit?: string): string | undefined {
+  if (explicit) return path.resolve(explicit);
+  if (process.env.ZXSEARCH_CONFIG) return path.resolve(process.env.ZXSEARCH_CONFIG);
+
+  return [process.cwd(), os.homedir()]
+    .map(dir => path.join(dir, CONFIG_FILE_NAME))
+    .find(file => fs.existsSync(file));
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  try {
+    const content = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+      throw new Error('expected a JSON object');
+    }
+    return content;
+  } catch (error) {
+    throw new Error(`Invalid config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function getPath(object: Record<string, unknown>, settingPath: string): unknown {
+  return settingPath
+    .split('.')
+    .reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), object);
+}
+
+/**
+ * Resolves every setting from defaults, the config file, the environment and
+ * CLI overrides, later layers taking precedence.
+ */
+export function resolveConfig(overrides: ConfigOverrides = {}, configFile?: string): ResolvedConfig {
+  const file = findConfigFile(configFile);
+  if (configFile && !fs.existsSync(file!)) {
+    throw new Error(`Config file ${file} not found`);
+  }
+  return resolveLayers(overrides, file, file ? readConfigFile(file) : {}, true);
+}
+
+function resolveLayers(
+  overrides: ConfigOverrides,
+  file: string | undefined,
+  fileValues: Record<string, unknown>,
+  useEnv: boolean
+): ResolvedConfig {
+  const settings = (Object.keys(SETTINGS) as SettingPath[]).map((settingPath): ResolvedSetting => {
+    const setting = SETTINGS[settingPath];
+    const layers: Array<Omit<ResolvedSetting, 'path'>> = [
+      { value: setting.default, origin: 'default' },
+      { value: getPath(fileValues, settingPath), origin: 'file', from: file },
+      { value: useEnv ? process.env[setting.env] || undefined : undefined, origin: 'env', from: setting.env },
+      { value: overrides[settingPath], origin: 'cli' }
+    ];
+    const chosen = layers.filter(layer => layer.value !== undefined).pop()!;
+
+    const parsed = setting.schema.safeParse(chosen.value);
+    if (!parsed.success) {
+      const where = chosen.from ? `${chosen.origin} ${chosen.from}` : chosen.origin;
+      throw new Error(`Invalid ${settingPath} from ${where}: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    return { path: settingPath, ...chosen, value: parsed.data };
+  });
+
+  const value = <T>(settingPath: SettingPath) => settings.find(setting => setting.path === settingPath)!.value as T;
+
+  return {
+    file,
+    settings,
+    config: {
+      browser: {
+        headless: value('browser.headless'),
+        timeout: value('browser.timeout'),
+        userAgent: value('browser.userAgent'),
+        viewport: {
+          width: value('browser.viewport.width'),
+          height: value('browser.viewport.height')
+        }
+      },
+      agent: {
+        retryAttempts: value('agent.retryAttempts'),
+        logLevel: value('agent.logLevel'),
+        logFormat: value('agent.logFormat')
+      },
+      formatter: {
+        name: value('formatter.name'),
+        model: value('formatter.model'),
+        ollamaUrl: value('formatter.ollamaUrl')
+      },
+      cache: {
+        dir: value('cache.dir'),
+        ttlMs: value<number>('cache.ttlHours') * 60 * 60 * 1000
+      },
+      watch: {
+        dir: value('watch.dir')
+      },
+      images: {
+        dir: value('images.dir'),
+        uploadDir: value('images.uploadDir')
+      },
+      wipo: {
+        baseUrl: value('wipo.baseUrl'),
+        searchEndpoint: '/search',
+        detailsEndpoint: '/details'
+      }
+    }
+  };
+}
+
+/**
+ * Resolves the configuration at import without throwing, so a bad environment
+ * value or config file cannot break the CLI before it can report it: the
+ * defaults stand in, and {@link configure}, which the CLI runs before every
+ * command, raises the error.
+ */
+function resolveAtImport(): ResolvedConfig {
+  try {
+    return resolveConfig();
+  } catch {
+    return resolveLayers({}, undefined, {}, false);
   }
-};
+}
+
+let resolved = resolveAtImport();
+
+/**
+ * The resolved configuration. Modules read it when they need a value, so
+ * overrides applied through {@link configure} reach them.
+ */
+export let config: Config = resolved.config;
+
+/**
+ * Re-resolves the configuration with CLI overrides and an optional config file.
+ */
+export function configure(overrides: ConfigOverrides = {}, configFile?: string): ResolvedConfig {
+  resolved = resolveConfig(overrides, configFile);
+  config = resolved.config;
+  return resolved;
+}
 
-export type Config = typeof config;
\ No newline at end of file
+export function getResolvedConfig(): ResolvedConfig {
+  return resolved;
+}
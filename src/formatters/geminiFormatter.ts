@@ -0,0 +1,66 @@
+import { GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { z } from 'zod';
+import { LLMFormatter } from './llmFormatter.js';
+
+/**
+ * Converts the JSON schema produced from a zod schema to the OpenAPI subset
+ * Gemini accepts as a response schema.
+ */
+function toGeminiSchema(jsonSchema: any): ResponseSchema {
+  const nullable = Array.isArray(jsonSchema.anyOf) && jsonSchema.anyOf.some((option: any) => option.type === 'null');
+  if (Array.isArray(jsonSchema.anyOf)) {
+    const option = jsonSchema.anyOf.find((candidate: any) => candidate.type !== 'null');
+    return { ...toGeminiSchema(option), nullable };
+  }
+
+  const description = jsonSchema.description ? { description: jsonSchema.description } : {};
+  switch (jsonSchema.type) {
+    case 'object':
+      return {
+        type: SchemaType.OBJECT,
+        ...description,
+        properties: Object.fromEntries(
+          Object.entries(jsonSchema.properties ?? {}).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: jsonSchema.required ?? []
+      };
+    case 'array':
+      return { type: SchemaType.ARRAY, ...description, items: toGeminiSchema(jsonSchema.items ?? {}) };
+    case 'integer':
+      return { type: SchemaType.INTEGER, ...description };
+    case 'number':
+      return { type: SchemaType.NUMBER, ...description };
+    case 'boolean':
+      return { type: SchemaType.BOOLEAN, ...description };
+    default:
+      return jsonSchema.enum
+        ? { type: SchemaType.STRING, format: 'enum', enum: jsonSchema.enum, ...description }
+        : { type: SchemaType.STRING, ...description };
+  }
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+export class GeminiFormatter extends LLMFormatter {
+  readonly name = 'gemini';
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    super(model);
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generateStructured(prompt: string, schema: z.ZodTypeAny): Promise<unknown> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: 0,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(toJsonSchema(schema))
+      }
+    });
+    const result = await model.generateContent(prompt);
+    return JSON.parse(result.response.text());
+  }
+}
@@ -0,0 +1,101 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+import { Config, config } from '../config/config.js';
+import { getLogger } from '../services/logger.js';
+import { DEFAULT_GEMINI_MODEL, GeminiFormatter } from './geminiFormatter.js';
+import { DEFAULT_OPENAI_MODEL, OpenAIFormatter } from './openAIFormatter.js';
+import { ResultFormatter } from './resultFormatter.js';
+import { RuleBasedFormatter } from './ruleBasedFormatter.js';
+
+export * from './resultFormatter.js';
+export { LLMFormatter } from './llmFormatter.js';
+export { GeminiFormatter } from './geminiFormatter.js';
+export { OpenAIFormatter } from './openAIFormatter.js';
+export { RuleBasedFormatter, cleanResult } from './ruleBasedFormatter.js';
+
+export type FormatterName = Config['formatter']['name'];
+
+const logger = getLogger('formatter');
+
+const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+
+// Gemini's OpenAI-compatible endpoint, so one chat client serves every provider
+const GEMINI_OPENAI_URL = 'https://generativelanguage.googleapis.com/v1beta/openai/';
+
+/**
+ * Builds the configured formatter, or the named one with an optional model.
+ * Model-backed formatters without credentials fall back to the rule-based one.
+ */
+export function createFormatter(
+  name: FormatterName = config.formatter.name,
+  model: string | undefined = config.formatter.model || undefined
+): ResultFormatter {
+  switch (name) {
+    case 'gemini':
+      if (!process.env.GOOGLE_API_KEY) {
+        logger.warn('No GOOGLE_API_KEY found, using rule-based formatting');
+        return new RuleBasedFormatter();
+      }
+      return new GeminiFormatter(process.env.GOOGLE_API_KEY, model);
+
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        logger.warn('No OPENAI_API_KEY found, using rule-based formatting');
+        return new RuleBasedFormatter();
+      }
+      return new OpenAIFormatter({ apiKey: process.env.OPENAI_API_KEY, model });
+
+    case 'ollama':
+      // Ollama ignores the key but the OpenAI client requires one
+      return new OpenAIFormatter({
+        name: 'ollama',
+        apiKey: 'ollama',
+        model: model ?? DEFAULT_OLLAMA_MODEL,
+        baseUrl: config.formatter.ollamaUrl
+      });
+
+    case 'rules':
+      return new RuleBasedFormatter();
+  }
+}
+
+/**
+ * Builds a chat model on the configured formatter's provider, or the named
+ * one with an optional model, for agents that converse rather than parse
+ * records. The rule-based formatter has no model to offer.
+ */
+export function createChatModel(
+  name: FormatterName = config.formatter.name,
+  model: string | undefined = config.formatter.model || undefined
+): BaseChatModel {
+  switch (name) {
+    case 'gemini':
+      if (!process.env.GOOGLE_API_KEY) {
+        throw new Error('A Gemini chat model needs GOOGLE_API_KEY');
+      }
+      return new ChatOpenAI({
+        model: model ?? DEFAULT_GEMINI_MODEL,
+        temperature: 0,
+        apiKey: process.env.GOOGLE_API_KEY,
+        configuration: { baseURL: GEMINI_OPENAI_URL }
+      });
+
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('An OpenAI chat model needs OPENAI_API_KEY');
+      }
+      // OPENAI_BASE_URL still points the client at any OpenAI-compatible server
+      return new ChatOpenAI({ model: model ?? DEFAULT_OPENAI_MODEL, temperature: 0, apiKey: process.env.OPENAI_API_KEY });
+
+    case 'ollama':
+      return new ChatOpenAI({
+        model: model ?? DEFAULT_OLLAMA_MODEL,
+        temperature: 0,
+        apiKey: 'ollama',
+        configuration: { baseURL: config.formatter.ollamaUrl }
+      });
+
+    case 'rules':
+      throw new Error('The rules formatter has no chat model; choose the gemini, openai or ollama formatter');
+  }
+}
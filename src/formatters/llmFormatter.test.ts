@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { LLMFormatter } from './llmFormatter.js';
+
+/**
+ * Replays canned replies in order and records the prompts it was sent.
+ */
+class FakeFormatter extends LLMFormatter {
+  readonly name = 'fake';
+  readonly prompts: string[] = [];
+
+  constructor(private replies: Array<unknown | Error>) {
+    super('fake-model');
+  }
+
+  async generateStructured(prompt: string, _schema: z.ZodTypeAny): Promise<unknown> {
+    this.prompts.push(prompt);
+    const reply = this.replies.shift();
+    if (reply instanceof Error) throw reply;
+    return reply;
+  }
+}
+
+// Concatenated result text, as read from the list when the fields could not be told apart
+const RAW = {
+  mark: 'NIKE Owner Nike, Inc. Nice class 25 Country of filing United States Number 123456',
+  status: 'Registered'
+};
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    index: 0,
+    mark: 'NIKE',
+    owner: 'Nike, Inc.',
+    applicationNumber: '123456',
+    country: 'United States',
+    filingDate: '2020-01-15',
+    status: 'Registered',
+    niceClasses: [25],
+    ...overrides
+  };
+}
+
+describe('LLMFormatter', () => {
+  it('cleans well-structured records by rules without calling the model', async () => {
+    const formatter = new FakeFormatter([]);
+    const [result] = await formatter.formatResults([
+      { mark: 'NIKE', owner: 'Nike, Inc.', applicationNumber: '123456', country: 'US', status: 'Registered', niceClasses: ['25'] }
+    ]);
+
+    expect(formatter.prompts).toHaveLength(0);
+    expect(result.provenance).toEqual({ method: 'rules', formatter: 'fake' });
+  });
+
+  it('keeps valid model entries and normalizes their country', async () => {
+    const formatter = new FakeFormatter([{ results: [entry()] }]);
+    const [result] = await formatter.formatResults([RAW]);
+
+    expect(formatter.prompts).toHaveLength(1);
+    expect(result).toMatchObject({ mark: 'NIKE', owner: 'Nike, Inc.', country: 'US', status: 'Registered' });
+    expect(result.provenance).toEqual({ method: 'llm', formatter: 'fake', model: 'fake-model' });
+  });
+
+  it('sends invalid entries back with their issues and marks the repaired result', async () => {
+    const formatter = new FakeFormatter([
+      { results: [entry({ niceClasses: 'twenty-five' })] },
+      { results: [entry()] }
+    ]);
+    const [result] = await formatter.formatResults([RAW]);
+
+    expect(formatter.prompts).toHaveLength(2);
+    expect(formatter.prompts[1]).toContain('failed validation');
+    expect(formatter.prompts[1]).toContain('niceClasses');
+    expect(result.provenance?.method).toBe('llm_repaired');
+    expect(result.provenance?.issues?.[0]).toMatch(/^niceClasses: /);
+  });
+
+  it('asks again for records missing from the reply', async () => {
+    const formatter = new FakeFormatter([{ results: [] }, { results: [entry()] }]);
+    const [result] = await formatter.formatResults([RAW]);
+
+    expect(result.provenance).toMatchObject({ method: 'llm_repaired', issues: ['record missing from reply'] });
+  });
+
+  it('falls back to rules when the repair round still fails validation', async () => {
+    const invalid = { results: [entry({ status: 'Alive' })] };
+    const formatter = new FakeFormatter([invalid, invalid]);
+    const [result] = await formatter.formatResults([RAW]);
+
+    expect(formatter.prompts).toHaveLength(2);
+    expect(result.mark).toBe('NIKE');
+    expect(result.provenance?.method).toBe('fallback');
+    expect(result.provenance?.issues?.[0]).toMatch(/^status: /);
+  });
+
+  it('falls back to rules when the request fails', async () => {
+    const formatter = new FakeFormatter([new Error('rate limited')]);
+    const [result] = await formatter.formatResults([RAW]);
+
+    expect(formatter.prompts).toHaveLength(1);
+    expect(result.provenance).toEqual({ method: 'fallback', formatter: 'fake', model: 'fake-model' });
+  });
+
+  it('sends records to the model in batches of 20', async () => {
+    const raws = Array.from({ length: 21 }, () => RAW);
+    const reply = (indexes: number[]) => ({ results: indexes.map(index => entry({ index })) });
+    const formatter = new FakeFormatter([
+      reply(Array.from({ length: 20 }, (_, i) => i)),
+      reply([20])
+    ]);
+    const results = await formatter.formatResults(raws);
+
+    expect(formatter.prompts).toHaveLength(2);
+    expect(results.every(result => result.provenance?.method === 'llm')).toBe(true);
+  });
+});
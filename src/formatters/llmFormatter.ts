@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import {
+  ParseProvenance,
+  TrademarkResult,
+  TrademarkResultSchema
+} from '../schemas/trademarkSchema.js';
+import { normalizeCountry } from '../services/jurisdictions.js';
+import { getLogger } from '../services/logger.js';
+import { normalizeResultDates } from '../services/renewals.js';
+import { normalizeResultStatus } from '../services/statuses.js';
+import { ResultFormatter } from './resultFormatter.js';
+import { cleanResult } from './ruleBasedFormatter.js';
+
+const logger = getLogger('formatter');
+
+/** Records sent to the model per request */
+const BATCH_SIZE = 20;
+/** Follow-up requests for items whose output failed validation */
+const MAX_REPAIR_ROUNDS = 1;
+
+/** One parsed record as the model returns it, tied to its input by index */
+export const ModelRecordSchema = TrademarkResultSchema.pick({
+  mark: true,
+  owner: true,
+  applicationNumber: true,
+  registrationNumber: true,
+  country: true,
+  filingDate: true,
+  registrationDate: true,
+  expiryDate: true,
+  status: true,
+  niceClasses: true,
+  goodsServices: true
+}).extend({
+  index: z.number().int().describe('Index of the raw record this entry parses')
+});
+
+export const ModelBatchSchema = z.object({
+  results: z.array(ModelRecordSchema)
+});
+
+// Replies are checked item by item, so one malformed entry does not discard the batch
+const ModelReplySchema = z.object({
+  results: z.array(z.object({ index: z.number() }).passthrough())
+});
+
+interface PendingRecord {
+  index: number;
+  raw: any;
+  /** The rejected output and why, for repair rounds */
+  previous?: unknown;
+  issues?: string[];
+}
+
+function needsModel(rawResult: any): boolean {
+  // Well-structured records are cleaned by rules; concatenated text needs parsing
+  if (rawResult.owner && rawResult.applicationNumber && rawResult.country) return false;
+  return typeof rawResult.mark === 'string' && rawResult.mark.length > 50;
+}
+
+/**
+ * Turns a model entry into a TrademarkResult candidate, dropping nulls,
+ * normalizing the country and keeping the links from the raw record.
+ */
+function toCandidate(entry: Record<string, unknown>, raw: any): Record<string, unknown> {
+  const { index: _index, ...fields } = entry;
+  const candidate = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== null && value !== undefined));
+  return {
+    ...candidate,
+    ...normalizeCountry(typeof candidate.country === 'string' ? candidate.country : undefined),
+    imageUrl: raw.imageUrl,
+    detailsUrl: raw.detailsUrl
+  };
+}
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`);
+}
+
+function buildPrompt(records: PendingRecord[], repair: boolean): string {
+  const instructions = repair
+    ? 'Your previous output for these trademark records failed validation. Return corrected entries for every record, fixing the listed issues.'
+    : 'Parse each raw trademark record below into structured fields.';
+
+  const lines = records.map(record => JSON.stringify({
+    index: record.index,
+    raw: record.raw,
+    ...(repair ? { previous: record.previous, issues: record.issues } : {})
+  }));
+
+  return `${instructions}
+Return one entry per record with its index. The mark is just the trademark name (e.g. "NIKE"); owner is the
+holder's name; niceClasses is a list of class numbers; status must be one of the allowed values, Unknown if absent;
+write dates as YYYY-MM-DD and never copy one date field into another; use an empty string for a missing applicationNumber, owner, country or filingDate and omit other missing fields.
+
+Records:
+${lines.join('\n')}`;
+}
+
+/**
+ * Shared flow for model-backed formatters. Records that need parsing are sent
+ * in batches with a schema derived from TrademarkResultSchema; each entry is
+ * validated, invalid ones get a bounded repair round, and whatever still fails
+ * is parsed by rules. Every result records the path that produced it.
+ */
+export abstract class LLMFormatter implements ResultFormatter {
+  abstract readonly name: string;
+
+  constructor(readonly model: string) {}
+
+  /** Sends a prompt and returns the model's output for the given schema; also used for Nice class suggestions */
+  abstract generateStructured(prompt: string, schema: z.ZodTypeAny): Promise<unknown>;
+
+  async formatResults(rawResults: any[]): Promise<TrademarkResult[]> {
+    const results: TrademarkResult[] = new Array(rawResults.length);
+    const pending: PendingRecord[] = [];
+
+    rawResults.forEach((raw, index) => {
+      if (needsModel(raw)) {
+        pending.push({ index, raw });
+      } else {
+        results[index] = { ...cleanResult(raw), provenance: this.provenance('rules') };
+      }
+    });
+
+    for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+      await this.parseBatch(pending.slice(start, start + BATCH_SIZE), results);
+    }
+
+    return results;
+  }
+
+  private provenance(method: ParseProvenance['method'], issues?: string[]): ParseProvenance {
+    return {
+      method,
+      formatter: this.name,
+      ...(method === 'rules' ? {} : { model: this.model }),
+      ...(issues && issues.length > 0 ? { issues } : {})
+    };
+  }
+
+  private async parseBatch(batch: PendingRecord[], results: TrademarkResult[]): Promise<void> {
+    let remaining = batch;
+
+    for (let round = 0; round <= MAX_REPAIR_ROUNDS && remaining.length > 0; round++) {
+      const repair = round > 0;
+      let entries: Array<Record<string, unknown>>;
+      try {
+        const reply = ModelReplySchema.parse(await this.generateStructured(buildPrompt(remaining, repair), ModelBatchSchema));
+        entries = reply.results;
+      } catch (error) {
+        logger.warn(`${this.name} request failed for ${remaining.length} records`, { error: error instanceof Error ? error.message : String(error) });
+        break;
+      }
+
+      const invalid: PendingRecord[] = [];
+      for (const record of remaining) {
+        const entry = entries.find(candidate => candidate.index === record.index);
+        if (!entry) {
+          invalid.push({ ...record, previous: null, issues: ['record missing from reply'] });
+          continue;
+        }
+
+        const parsed = TrademarkResultSchema.safeParse(toCandidate(entry, record.raw));
+        if (parsed.success) {
+          results[record.index] = { ...normalizeResultDates(normalizeResultStatus(parsed.data, record.raw.status)), provenance: this.provenance(repair ? 'llm_repaired' : 'llm', record.issues) };
+        } else {
+          invalid.push({ ...record, previous: entry, issues: describeIssues(parsed.error) });
+        }
+      }
+
+      if (invalid.length > 0) {
+        logger.debug(`${invalid.length} of ${remaining.length} model entries failed validation`, { round });
+      }
+      remaining = invalid;
+    }
+
+    for (const record of remaining) {
+      results[record.index] = { ...cleanResult(record.raw), provenance: this.provenance('fallback', record.issues) };
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { z } from 'zod';
+import { LLMFormatter } from './llmFormatter.js';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export interface OpenAIFormatterOptions {
+  apiKey: string;
+  model?: string;
+  /** OpenAI-compatible endpoint, e.g. a local Ollama server */
+  baseUrl?: string;
+  /** Name reported for the formatter */
+  name?: string;
+}
+
+/**
+ * Formats through the OpenAI chat API or any server that implements it.
+ */
+export class OpenAIFormatter extends LLMFormatter {
+  readonly name: string;
+  private client: ChatOpenAI;
+
+  constructor(options: OpenAIFormatterOptions) {
+    super(options.model ?? DEFAULT_OPENAI_MODEL);
+    this.name = options.name ?? 'openai';
+    this.client = new ChatOpenAI({
+      model: this.model,
+      temperature: 0,
+      apiKey: options.apiKey,
+      configuration: options.baseUrl ? { baseURL: options.baseUrl } : undefined
+    });
+  }
+
+  async generateStructured(prompt: string, schema: z.ZodTypeAny): Promise<unknown> {
+    return this.client.withStructuredOutput(schema, { name: 'trademark_results' }).invoke(prompt);
+  }
+}
@@ -0,0 +1,12 @@
+import { TrademarkResult } from '../schemas/trademarkSchema.js';
+
+/**
+ * Turns the raw records a source extracts into TrademarkResults, with or
+ * without the help of a language model.
+ */
+export interface ResultFormatter {
+  readonly name: string;
+  /** The model that parses records, for formatters backed by one */
+  readonly model?: string;
+  formatResults(rawResults: any[]): Promise<TrademarkResult[]>;
+}
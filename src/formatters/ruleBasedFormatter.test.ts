@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { RuleBasedFormatter, cleanResult } from './ruleBasedFormatter.js';
+
+describe('cleanResult', () => {
+  it('turns Nice classes read as text into numbers', () => {
+    const result = cleanResult({ mark: 'NIKE', owner: 'Nike, Inc.', applicationNumber: '123', country: 'US', niceClasses: ['09', ' 25', '35'] });
+    expect(result.niceClasses).toEqual([9, 25, 35]);
+  });
+
+  it('drops values that are not Nice classes', () => {
+    const result = cleanResult({ mark: 'NIKE', niceClasses: ['', 'n/a', '0', '46', 28] });
+    expect(result.niceClasses).toEqual([28]);
+  });
+
+  it('reads classes from concatenated card text', () => {
+    const result = cleanResult({ mark: 'NIKEOwnerNike, Inc.Nice class 25, 35Country of filingUnited States' });
+    expect(result).toMatchObject({ mark: 'NIKE', niceClasses: [25, 35], country: 'US' });
+  });
+});
+
+describe('RuleBasedFormatter', () => {
+  it('records the rules path on every result', async () => {
+    const [result] = await new RuleBasedFormatter().formatResults([{ mark: 'NIKE', niceClasses: ['25'] }]);
+    expect(result.niceClasses).toEqual([25]);
+    expect(result.provenance).toEqual({ method: 'rules', formatter: 'rules' });
+  });
+});
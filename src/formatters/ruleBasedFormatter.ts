@@ -0,0 +1,82 @@
+import { TrademarkResult } from '../schemas/trademarkSchema.js';
+import { findJurisdictionInText, normalizeCountry } from '../services/jurisdictions.js';
+import { normalizeResultDates } from '../services/renewals.js';
+import { classifyStatus, normalizeResultStatus } from '../services/statuses.js';
+import { ResultFormatter } from './resultFormatter.js';
+
+/**
+ * Extracts fields from raw records, including the concatenated text some
+ * result layouts put in the mark field, without calling a model.
+ */
+export function cleanResult(rawResult: any): TrademarkResult {
+  // Clean up the mark field if it contains concatenated text
+  let mark = rawResult.mark || '';
+  if (mark.includes('Owner')) {
+    mark = mark.split('Owner')[0].trim();
+  }
+
+  // Extract owner from concatenated text if needed
+  let owner = rawResult.owner || '';
+  if (!owner && rawResult.mark && rawResult.mark.includes('Owner')) {
+    const ownerMatch = rawResult.mark.match(/Owner([^N]*)(Nice|$)/);
+    if (ownerMatch) {
+      owner = ownerMatch[1].trim();
+    }
+  }
+
+  // Extract application number
+  let applicationNumber = rawResult.applicationNumber || '';
+  if (!applicationNumber && rawResult.mark && rawResult.mark.includes('Number')) {
+    const numberMatch = rawResult.mark.match(/Number(\d+)/);
+    if (numberMatch) {
+      applicationNumber = numberMatch[1];
+    }
+  }
+
+  // Extract country, naming it in the concatenated text if the field is empty
+  let country = rawResult.country || '';
+  if (!country && rawResult.mark) {
+    country = findJurisdictionInText(rawResult.mark)?.code ?? '';
+  }
+
+  // Extract status from the status text, or from the text after "Status" in concatenated records
+  let status = classifyStatus(rawResult.status);
+  if (status === 'Unknown' && rawResult.mark && rawResult.mark.includes('Status')) {
+    status = classifyStatus(rawResult.mark.split('Status')[1].slice(0, 60));
+  }
+
+  // Extract nice classes
+  let niceClasses = rawResult.niceClasses || [];
+  if (!niceClasses.length && rawResult.mark && rawResult.mark.includes('Nice class')) {
+    const niceMatch = rawResult.mark.match(/Nice class\s*([\d,\s]+)/);
+    if (niceMatch) {
+      niceClasses = niceMatch[1].split(',').map((n: string) => parseInt(n.trim())).filter((n: number) => !isNaN(n));
+    }
+  }
+  // Scraped and cached records may carry classes as text, e.g. "09"
+  niceClasses = niceClasses.map((n: string | number) => parseInt(String(n), 10)).filter((n: number) => n >= 1 && n <= 45);
+
+  return normalizeResultDates(normalizeResultStatus({
+    applicationNumber: applicationNumber || rawResult.applicationNumber || '',
+    registrationNumber: rawResult.registrationNumber,
+    mark: mark || 'Unknown',
+    owner: owner || rawResult.owner || '',
+    ...normalizeCountry(country),
+    filingDate: rawResult.filingDate || '',
+    registrationDate: rawResult.registrationDate,
+    expiryDate: rawResult.expiryDate,
+    status,
+    niceClasses: niceClasses,
+    goodsServices: rawResult.goodsServices,
+    imageUrl: rawResult.imageUrl,
+    detailsUrl: rawResult.detailsUrl
+  }, rawResult.status));
+}
+
+export class RuleBasedFormatter implements ResultFormatter {
+  readonly name = 'rules';
+
+  async formatResults(rawResults: any[]): Promise<TrademarkResult[]> {
+    return rawResults.map(rawResult => ({ ...cleanResult(rawResult), provenance: { method: 'rules', formatter: this.name } }));
+  }
+}
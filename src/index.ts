@@ -3,79 +3,277 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import * as dotenv from 'dotenv';
-import { WIPOSearchAgent } from './agents/wipoSearchAgent.js';
-import { TrademarkSearchParams, TrademarkSearchParamsSchema } from './schemas/trademarkSchema.js';
+import { WIPOSearchAgent, WIPOSearchError } from './agents/wipoSearchAgent.js';
+import {
+  CONFIG_FILE_NAME,
+  ConfigOverrides,
+  SettingPath,
+  config,
+  configure,
+  getResolvedConfig
+} from './config/config.js';
+import { LLMNavigator } from './agents/navigationAgent.js';
+import { SearchFilterResult, TrademarkSearchParams, TrademarkSearchParamsSchema, TrademarkStatusSchema } from './schemas/trademarkSchema.js';
+import { RecordingOptions } from './services/sessionRecorder.js';
+import { SearchCache, isExpired } from './services/searchCache.js';
+import { Watch, WatchStore } from './services/watchStore.js';
+import { ResultDiff, diffResults, isTruncated } from './services/resultDiff.js';
+import { parseNiceClasses, rankResults } from './services/similarity.js';
+import { BatchRunner, loadBatchFile } from './services/batchRunner.js';
+import { findJurisdiction, normalizeCountryFilter } from './services/jurisdictions.js';
+import { filterExpiringWithin } from './services/renewals.js';
+import { filterLive } from './services/statuses.js';
+import { NICE_CLASSES, NICE_CLASS_COUNT, describeNiceClasses, getNiceClass } from './services/niceClasses.js';
+import { NiceSuggestion, suggestNiceClasses, suggestNiceClassesWithModel } from './services/niceSuggester.js';
+import { LLMFormatter, createChatModel, createFormatter } from './formatters/index.js';
+import { ImageStore, hashImageFile } from './services/imageStore.js';
+import { ConsoleSink, JsonLinesSink, configureLogging } from './services/logger.js';
+import { SearchJobQueue } from './server/jobQueue.js';
+import { createSearchServer } from './server/httpServer.js';
+import { createTrademarkMcpServer } from './server/mcpServer.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  OutputFormatSchema,
+  formatAge,
+  isMachineFormat,
+  redirectLogsToStderr,
+  renderBatch,
+  renderResults,
+  writeOutput
+} from './services/resultRenderer.js';
+import { DEFAULT_SOURCE_ID, assertSourceSupports, getSource, listSources } from './sources/index.js';
 
 dotenv.config();
 
 const program = new Command();
 
+function parseRecordingOptions(options: { record?: string; replay?: string }): RecordingOptions | undefined {
+  if (options.record && options.replay) {
+    throw new Error('--record and --replay cannot be used together');
+  }
+  if (options.record) return { mode: 'record', dir: options.record };
+  if (options.replay) return { mode: 'replay', dir: options.replay };
+  return undefined;
+}
+
+const CONFIG_FLAGS: Partial<Record<SettingPath, string>> = {
+  'browser.headless': '--headless',
+  'browser.timeout': '--timeout',
+  'browser.userAgent': '--user-agent',
+  'browser.viewport.width': '--viewport',
+  'browser.viewport.height': '--viewport',
+  'agent.retryAttempts': '--retries',
+  'agent.logLevel': '--log-level',
+  'agent.logFormat': '--log-format',
+  'formatter.name': '--formatter',
+  'formatter.model': '--model'
+};
+
+/**
+ * Maps the global configuration flags onto config settings.
+ */
+function parseConfigFlags(options: Record<string, any>): ConfigOverrides {
+  const overrides: ConfigOverrides = {
+    'browser.headless': options.headless,
+    'browser.timeout': options.timeout,
+    'browser.userAgent': options.userAgent,
+    'agent.retryAttempts': options.retries,
+    'agent.logLevel': options.logLevel,
+    'agent.logFormat': options.logFormat,
+    'formatter.name': options.formatter,
+    'formatter.model': options.model
+  };
+
+  if (options.viewport) {
+    const match = String(options.viewport).match(/^(\d+)x(\d+)$/i);
+    if (!match) throw new Error(`Invalid --viewport "${options.viewport}", expected WIDTHxHEIGHT`);
+    overrides['browser.viewport.width'] = match[1];
+    overrides['browser.viewport.height'] = match[2];
+  }
+
+  return overrides;
+}
+
+/**
+ * Builds the model navigator for --llm-fallback on the configured formatter's
+ * provider, with --fallback-model in place of the formatter's model.
+ */
+function createNavigator(options: { llmFallback?: boolean; fallbackModel?: string; fallbackSteps: string }): LLMNavigator | undefined {
+  if (!options.llmFallback) return undefined;
+
+  return new LLMNavigator(createChatModel(undefined, options.fallbackModel), { maxSteps: parseInt(options.fallbackSteps) });
+}
+
+function parseExpiringWithin(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`--expiring-within must be a whole number of days, got "${value}"`);
+  }
+  return days;
+}
+
+function localFilter(filter: 'liveOnly' | 'expiringWithin', value: string, read: number, kept: number): SearchFilterResult {
+  return { filter, value, applied: true, reason: `applied after the search, ${kept} of ${read} results kept` };
+}
+
+function parseConcurrency(value: string): number {
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`--concurrency must be a whole number of at least 1, got "${value}"`);
+  }
+  return concurrency;
+}
+
+/**
+ * Validates search options shared by the search and watch commands, rejecting
+ * searches the register cannot run before a browser is launched.
+ */
+function parseSearchParams(options: Record<string, any>): TrademarkSearchParams {
+  const parsed = TrademarkSearchParamsSchema.safeParse({
+    query: options.query,
+    // --image implies an image search unless another type is given
+    searchType: options.type ?? (options.image ? 'image' : 'brand'),
+    image: options.image,
+    country: options.country,
+    nice: options.nice,
+    status: options.status,
+    limit: parseInt(options.limit),
+    details: Boolean(options.details),
+    images: Boolean(options.images),
+    source: options.source
+  });
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+  }
+
+  const searchParams = normalizeCountryFilter(parsed.data);
+  assertSourceSupports(getSource(searchParams.source), searchParams);
+  return searchParams;
+}
+
 program
   .name('zx-ai-web-search')
   .description('AI-powered trademark search agent using LangGraph and web scraping')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--config <file>', `Config file (defaults to ${CONFIG_FILE_NAME} in the working or home directory)`)
+  .option('--headless <headless>', 'Run browser in headless mode (true, false)')
+  .option('--timeout <ms>', 'Default browser action timeout in milliseconds')
+  .option('--user-agent <userAgent>', 'Browser user agent')
+  .option('--viewport <size>', 'Browser viewport as WIDTHxHEIGHT, e.g. 1280x720')
+  .option('--retries <n>', 'Retry attempts for failed search steps')
+  .option('--log-level <level>', 'Log level (debug, info, warn, error)')
+  .option('--log-format <format>', 'Log output: console, or json for JSON lines on stderr')
+  .option('--formatter <name>', 'Result formatter (gemini, openai, ollama, rules)')
+  .option('--model <model>', 'Model used by the result formatter')
+  // Flags are the last configuration layer, applied before any command runs
+  .hook('preAction', () => {
+    const options = program.opts();
+    try {
+      const { config } = configure(parseConfigFlags(options), options.config);
+      configureLogging({ sinks: [config.agent.logFormat === 'json' ? new JsonLinesSink() : new ConsoleSink()] });
+    } catch (error) {
+      console.error(chalk.red('❌ Configuration error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
 
 program
   .command('search')
-  .description('Search for trademarks on WIPO database')
-  .requiredOption('-q, --query <query>', 'Search query (trademark name)')
-  .option('-t, --type <type>', 'Search type (brand, owner, number)', 'brand')
+  .description('Search for trademarks in a trademark register (WIPO by default)')
+  .option('-q, --query <query>', 'Search query (trademark name); optional for image searches')
+  .option('-t, --type <type>', 'Search type (brand, owner, number, image), defaults to brand, or image with --image')
+  .option('--image <file>', 'Logo file (PNG, JPEG, GIF, WebP, BMP or SVG) to search by image')
   .option('-c, --country <country>', 'Country code filter')
-  .option('-n, --nice <nice>', 'Nice classification filter')
+  .option('-n, --nice <nice>', 'Nice classification filter (classes 1-45, comma-separated)')
+  .option('-s, --status <status>', `Status filter (${TrademarkStatusSchema.options.filter(status => status !== 'Unknown').join(', ')})`)
   .option('-l, --limit <limit>', 'Maximum number of results', '10')
-  .option('--headless <headless>', 'Run browser in headless mode', 'true')
+  .option('--source <source>', 'Trademark register to search (see the sources command)', DEFAULT_SOURCE_ID)
+  .option('-d, --details', 'Open each result\'s details page to fill registration, expiry and goods/services')
+  .option('--images', 'Download result images into the local image store and record their perceptual hashes')
+  .option('-r, --rank', 'Score results for similarity to the query and sort them by conflict risk')
+  .option('--expiring-within <days>', 'Only show marks whose registered or computed expiry date falls within this many days')
+  .option('--live-only', 'Hide dead marks (expired, cancelled, refused, withdrawn, abandoned, ...); marks of unknown status are kept')
+  .option('--record <dir>', 'Record the pages and XHR responses of this run into a directory')
+  .option('--replay <dir>', 'Replay a recorded run from a directory without network access')
+  .option('-f, --format <format>', 'Output format (table, json, ndjson, csv, markdown)', 'table')
+  .option('-o, --output <file>', 'Write results to a file instead of stdout')
+  .option('--no-cache', 'Do not read or write the search result cache')
+  .option('--refresh', 'Ignore cached results and store fresh ones')
+  .option('--llm-fallback', 'Let a chat model drive the search if the scripted flow no longer matches the site')
+  .option('--fallback-model <model>', 'Chat model for --llm-fallback, on the configured formatter\'s provider (defaults to its model)')
+  .option('--fallback-steps <n>', 'Maximum number of model steps for --llm-fallback', '12')
   .action(async (options) => {
     try {
+      const format = OutputFormatSchema.parse(options.format);
+      // Keep stdout clean for piping machine-readable output
+      if (isMachineFormat(format)) {
+        redirectLogsToStderr();
+      }
+
       console.log(chalk.blue('🔍 ZX AI Web Search - WIPO Trademark Agent'));
       console.log(chalk.gray('=====================================\n'));
 
-      // Set headless mode
-      process.env.HEADLESS = options.headless;
-
-      // Validate and parse search parameters
-      const searchParams: TrademarkSearchParams = TrademarkSearchParamsSchema.parse({
-        query: options.query,
-        searchType: options.type,
-        country: options.country,
-        nice: options.nice,
-        limit: parseInt(options.limit)
-      });
+      const searchParams = parseSearchParams(options);
+      const source = getSource(searchParams.source);
+      const expiringWithin = parseExpiringWithin(options.expiringWithin);
+      if (options.rank && searchParams.searchType === 'image') {
+        throw new Error('--rank compares mark names with the query and does not apply to image searches');
+      }
 
       console.log(chalk.cyan('Search Parameters:'));
-      console.log(`  Query: ${chalk.white(searchParams.query)}`);
+      console.log(`  Source: ${chalk.white(source.name)}`);
+      if (searchParams.image) {
+        console.log(`  Image: ${chalk.white(searchParams.image)}`);
+      } else {
+        console.log(`  Query: ${chalk.white(searchParams.query)}`);
+      }
       console.log(`  Type: ${chalk.white(searchParams.searchType)}`);
-      if (searchParams.country) console.log(`  Country: ${chalk.white(searchParams.country)}`);
-      if (searchParams.nice) console.log(`  Nice Classification: ${chalk.white(searchParams.nice)}`);
-      console.log(`  Limit: ${chalk.white(searchParams.limit)}\n`);
+      if (searchParams.country) console.log(`  Country: ${chalk.white(`${searchParams.country} (${findJurisdiction(searchParams.country)!.name})`)}`);
+      if (searchParams.nice) console.log(`  Nice Classification: ${chalk.white(describeNiceClasses(parseNiceClasses(searchParams.nice)))}`);
+      if (searchParams.status) console.log(`  Status: ${chalk.white(searchParams.status)}`);
+      console.log(`  Limit: ${chalk.white(searchParams.limit)}`);
+      if (searchParams.details) console.log(`  Details: ${chalk.white('enabled')}`);
+      if (searchParams.images) console.log(`  Images: ${chalk.white(`stored in ${config.images.dir}`)}`);
+      if (expiringWithin !== undefined) console.log(`  Expiring within: ${chalk.white(`${expiringWithin} days`)}`);
+      if (options.liveOnly) console.log(`  Live marks only: ${chalk.white('yes')}`);
+      console.log('');
 
       // Initialize and run agent
-      const agent = new WIPOSearchAgent();
+      const agent = new WIPOSearchAgent({
+        recording: parseRecordingOptions(options),
+        cache: options.cache ? new SearchCache() : undefined,
+        refresh: Boolean(options.refresh),
+        navigator: createNavigator(options)
+      });
       const results = await agent.search(searchParams);
 
-      if (results) {
-        console.log(chalk.green(`\n✅ Search completed successfully!`));
-        console.log(chalk.blue(`Found ${results.totalResults} results:\n`));
-
-        results.results.forEach((result, index) => {
-          console.log(chalk.yellow(`${index + 1}. ${result.mark || 'Unknown Mark'}`));
-          console.log(`   Application: ${result.applicationNumber || 'N/A'}`);
-          console.log(`   Owner: ${result.owner || 'N/A'}`);
-          console.log(`   Country: ${result.country || 'N/A'}`);
-          console.log(`   Status: ${result.status || 'Unknown'}`);
-          console.log(`   Filing Date: ${result.filingDate || 'N/A'}`);
-          if (result.imageUrl) console.log(`   Image: ${result.imageUrl}`);
-          if (result.detailsUrl) console.log(`   Details: ${result.detailsUrl}`);
-          console.log('');
-        });
+      // The register's total predates these filters, so each one reports what it kept
+      if (options.liveOnly) {
+        const read = results.results.length;
+        results.results = filterLive(results.results);
+        results.filters = [...(results.filters ?? []), localFilter('liveOnly', 'yes', read, results.results.length)];
+      }
 
-        console.log(chalk.gray(`Search completed in ${results.searchTime}ms`));
-        console.log(chalk.gray(`Timestamp: ${results.timestamp}`));
-      } else {
-        console.log(chalk.red('\n❌ Search failed. Please try again.'));
-        process.exit(1);
+      if (expiringWithin !== undefined) {
+        const read = results.results.length;
+        results.results = filterExpiringWithin(results.results, expiringWithin);
+        results.filters = [...(results.filters ?? []), localFilter('expiringWithin', `${expiringWithin} days`, read, results.results.length)];
+      }
+
+      if (options.rank) {
+        results.results = rankResults(searchParams.query, results.results, parseNiceClasses(searchParams.nice));
+      }
+
+      await writeOutput(renderResults(results, format, { color: !options.output }), options.output);
+      if (options.output) {
+        console.log(chalk.gray(`Results written to ${options.output}`));
       }
     } catch (error) {
       console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : 'Unknown error');
+      if (error instanceof WIPOSearchError) {
+        console.error(chalk.gray(`   Reason: ${error.code}${error.step ? ` during ${error.step}` : ''}, after ${error.attempts} retr${error.attempts === 1 ? 'y' : 'ies'}`));
+      }
       process.exit(1);
     }
   });
@@ -84,20 +282,446 @@ program
   .command('config')
   .description('Show configuration information')
   .action(() => {
+    const { settings, file } = getResolvedConfig();
+
     console.log(chalk.blue('🔧 Configuration:'));
-    console.log(`  Headless Mode: ${process.env.HEADLESS !== 'false' ? 'enabled' : 'disabled'}`);
-    console.log(`  Node Version: ${process.version}`);
+    console.log(chalk.gray(`  Config file: ${file ?? `none (${CONFIG_FILE_NAME} not found)`}`));
+    console.log(chalk.gray('  Precedence: default < file < env < cli\n'));
+
+    const width = Math.max(...settings.map(setting => setting.path.length));
+    for (const setting of settings) {
+      const from = setting.origin === 'cli' ? CONFIG_FLAGS[setting.path] : setting.from;
+      const origin = from ? `${setting.origin} (${from})` : setting.origin;
+      const value = String(setting.value) || chalk.gray('(unset)');
+      console.log(`  ${setting.path.padEnd(width)}  ${chalk.white(value)}  ${chalk.gray(origin)}`);
+    }
+
+    console.log(`\n  Node Version: ${process.version}`);
     console.log(`  Platform: ${process.platform}`);
   });
 
+program
+  .command('batch <file>')
+  .description('Search many queries from a CSV or JSON file through one shared browser')
+  .option('-t, --type <type>', 'Default search type for rows without one', 'brand')
+  .option('-c, --country <country>', 'Default country filter for rows without one')
+  .option('-n, --nice <nice>', 'Default Nice classification filter for rows without one')
+  .option('-l, --limit <limit>', 'Maximum number of results per query', '10')
+  .option('--source <source>', 'Trademark register to search (see the sources command)', DEFAULT_SOURCE_ID)
+  .option('-j, --concurrency <n>', 'Number of queries searched in parallel', '2')
+  .option('-f, --format <format>', 'Output format (table, json, ndjson, csv, markdown)', 'csv')
+  .option('-o, --output <file>', 'Write the combined results to a file instead of stdout')
+  .option('--checkpoint <file>', 'Checkpoint file used to resume an interrupted batch')
+  .option('--fresh', 'Ignore an existing checkpoint and search every query again')
+  .option('--no-cache', 'Do not read or write the search result cache')
+  .action(async (file, options) => {
+    try {
+      const format = OutputFormatSchema.parse(options.format);
+      const concurrency = parseConcurrency(options.concurrency);
+      if (isMachineFormat(format) && !options.output) {
+        redirectLogsToStderr();
+      }
+
+      const queries = await loadBatchFile(file, {
+        searchType: options.type,
+        country: options.country,
+        nice: options.nice,
+        limit: parseInt(options.limit),
+        source: options.source
+      });
+
+      console.log(chalk.blue(`📋 Running ${queries.length} queries from ${file}`));
+
+      const runner = new BatchRunner({
+        concurrency,
+        checkpointPath: options.checkpoint || `${options.output || file}.checkpoint.json`,
+        cache: options.cache ? new SearchCache() : undefined,
+        fresh: Boolean(options.fresh)
+      });
+      const outcomes = await runner.run(file, queries);
+
+      await writeOutput(renderBatch(outcomes, format), options.output);
+
+      const failed = outcomes.filter(outcome => outcome.status === 'failed').length;
+      console.log(chalk.gray(`\n${outcomes.length - failed} succeeded, ${failed} failed${options.output ? `, results written to ${options.output}` : ''}`));
+      if (failed > 0) process.exit(1);
+    } catch (error) {
+      console.error(chalk.red('❌ Batch failed:'), error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+program
+  .command('serve')
+  .description('Start an HTTP server that runs trademark searches as asynchronous jobs')
+  .option('-p, --port <port>', 'Port to listen on', '3000')
+  .option('--host <host>', 'Host to bind to', '127.0.0.1')
+  .option('-j, --concurrency <n>', 'Maximum number of searches (browser instances) running at once', '2')
+  .option('--no-cache', 'Do not read or write the search result cache')
+  .action((options) => {
+    let concurrency: number;
+    try {
+      concurrency = parseConcurrency(options.concurrency);
+    } catch (error) {
+      console.error(chalk.red('❌ Error:'), error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+
+    const queue = new SearchJobQueue({
+      concurrency,
+      cache: options.cache ? new SearchCache() : undefined
+    });
+    const server = createSearchServer(queue);
+
+    server.listen(parseInt(options.port), options.host, () => {
+      console.log(chalk.blue(`🌐 Trademark search API listening on http://${options.host}:${options.port}`));
+      console.log(chalk.gray(`   POST /searches, GET /searches/:id, DELETE /searches/:id, GET /health (concurrency ${concurrency})`));
+    });
+
+    const shutdown = () => {
+      console.log(chalk.yellow('\n🛑 Shutting down...'));
+      queue.shutdown();
+      server.close(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  });
+
+program
+  .command('mcp')
+  .description('Run a Model Context Protocol server over stdio exposing trademark search tools')
+  .option('--no-cache', 'Do not read or write the search result cache')
+  .action(async (options) => {
+    // stdout carries the protocol, so progress logs go to stderr
+    redirectLogsToStderr();
+
+    const server = createTrademarkMcpServer({
+      cache: options.cache ? new SearchCache() : undefined
+    });
+    await server.connect(new StdioServerTransport());
+    console.log(chalk.blue('🔌 MCP server ready on stdio (tools: search_trademarks, get_trademark_details)'));
+  });
+
+const cacheCommand = program
+  .command('cache')
+  .description('Manage cached search results');
+
+cacheCommand
+  .command('list')
+  .description('List cached searches')
+  .action(async () => {
+    const entries = await new SearchCache().list();
+    if (entries.length === 0) {
+      console.log(chalk.gray('Cache is empty'));
+      return;
+    }
+
+    console.log(chalk.blue(`💾 ${entries.length} cached search${entries.length === 1 ? '' : 'es'}:\n`));
+    entries.forEach(entry => {
+      const state = isExpired(entry) ? chalk.red('expired') : chalk.green('fresh');
+      const { query, searchType, source, country, nice, status, limit } = entry.params;
+      const filters = [country && `country=${country}`, nice && `nice=${nice}`, status && `status=${status}`].filter(Boolean).join(' ');
+      console.log(`${chalk.yellow(entry.key.slice(0, 12))}  ${query} ${chalk.gray(`[${source}/${searchType}, limit ${limit}${filters ? `, ${filters}` : ''}]`)}`);
+      const parser = entry.parser ? `, parsed by ${entry.parser.formatter}${entry.parser.model ? ` ${entry.parser.model}` : ''}` : '';
+      console.log(`              ${entry.results.results.length} results, ${formatAge(entry.createdAt)} old, ${state}${parser}`);
+    });
+  });
+
+cacheCommand
+  .command('show <key>')
+  .description('Show a cached search by key or key prefix')
+  .option('-f, --format <format>', 'Output format (table, json, ndjson, csv, markdown)', 'table')
+  .option('--raw', 'Show the raw scraped records instead of the formatted results')
+  .action(async (key, options) => {
+    const entry = await new SearchCache().read(key);
+    if (!entry) {
+      console.error(chalk.red(`❌ No unique cache entry matches "${key}"`));
+      process.exit(1);
+    }
+
+    if (options.raw) {
+      process.stdout.write(JSON.stringify(entry.rawResults, null, 2) + '\n');
+      return;
+    }
+
+    const format = OutputFormatSchema.parse(options.format);
+    await writeOutput(renderResults({ ...entry.results, fromCache: true }, format));
+  });
+
+cacheCommand
+  .command('purge [key]')
+  .description('Delete cached searches (all, one by key prefix, or only expired ones)')
+  .option('--expired', 'Only delete expired entries')
+  .action(async (key, options) => {
+    const removed = await new SearchCache().purge({ key, expiredOnly: Boolean(options.expired) });
+    console.log(chalk.green(`🧹 Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'}`));
+  });
+
+const watchCommand = program
+  .command('watch')
+  .description('Watch searches for new and changed filings between runs');
+
+watchCommand
+  .command('add')
+  .description('Add a watched search')
+  .requiredOption('-q, --query <query>', 'Search query (trademark name)')
+  .option('--name <name>', 'Name for the watch (defaults to the query)')
+  .option('-t, --type <type>', 'Search type (brand, owner, number)', 'brand')
+  .option('-c, --country <country>', 'Country code filter')
+  .option('-n, --nice <nice>', 'Nice classification filter (classes 1-45, comma-separated)')
+  .option('-s, --status <status>', `Status filter (${TrademarkStatusSchema.options.filter(status => status !== 'Unknown').join(', ')})`)
+  .option('-l, --limit <limit>', 'Maximum number of results', '50')
+  .option('--source <source>', 'Trademark register to search (see the sources command)', DEFAULT_SOURCE_ID)
+  .action(async (options) => {
+    try {
+      const watch = await new WatchStore().add(parseSearchParams(options), options.name);
+      console.log(chalk.green(`👀 Watching "${watch.name}" (${watch.id})`));
+    } catch (error) {
+      console.error(chalk.red('❌ Error:'), error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+watchCommand
+  .command('list')
+  .description('List watched searches')
+  .action(async () => {
+    const watches = await new WatchStore().list();
+    if (watches.length === 0) {
+      console.log(chalk.gray('No watched searches'));
+      return;
+    }
+
+    watches.forEach(watch => {
+      const { query, searchType, source, country, nice, status, limit } = watch.params;
+      const filters = [country && `country=${country}`, nice && `nice=${nice}`, status && `status=${status}`].filter(Boolean).join(' ');
+      console.log(`${chalk.yellow(watch.id)}  ${watch.name} ${chalk.gray(`[${query}, ${source || DEFAULT_SOURCE_ID}/${searchType}, limit ${limit}${filters ? `, ${filters}` : ''}]`)}`);
+      console.log(`          last run: ${watch.lastRunAt || 'never'}`);
+    });
+  });
+
+watchCommand
+  .command('remove <watch>')
+  .description('Remove a watched search by id or name')
+  .action(async (id) => {
+    const watch = await new WatchStore().remove(id);
+    if (!watch) {
+      console.error(chalk.red(`❌ No watch matches "${id}"`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`🗑️  Removed watch "${watch.name}" (${watch.id})`));
+  });
+
+watchCommand
+  .command('run [watches...]')
+  .description('Run watched searches (all by default) and report changes; exits 2 when something changed')
+  .option('-f, --format <format>', 'Output format (table, json)', 'table')
+  .action(async (ids: string[], options) => {
+    const format = OutputFormatSchema.extract(['table', 'json']).parse(options.format);
+    if (format === 'json') {
+      redirectLogsToStderr();
+    }
+
+    const store = new WatchStore();
+    const all = await store.list();
+    const watches = ids.length > 0 ? all.filter(w => ids.includes(w.id) || ids.includes(w.name)) : all;
+    if (watches.length === 0) {
+      console.error(chalk.red('❌ No watched searches to run'));
+      process.exit(1);
+    }
+
+    const report: Array<{ watch: Watch; baseline: boolean; diff?: ResultDiff; error?: string }> = [];
+
+    for (const watch of watches) {
+      console.log(chalk.blue(`\n👀 Running watch "${watch.name}" (${watch.id})`));
+      try {
+        const results = await new WIPOSearchAgent().search(watch.params);
+        const previous = await store.readSnapshot(watch.id);
+        await store.writeSnapshot(watch.id, results.results, results.timestamp, results.totalResults);
+
+        report.push(previous
+          ? { watch, baseline: false, diff: diffResults(previous.results, results.results, { truncated: isTruncated(previous) || isTruncated(results) }) }
+          : { watch, baseline: true });
+      } catch (error) {
+        report.push({ watch, baseline: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    if (format === 'json') {
+      await writeOutput(JSON.stringify(report, null, 2) + '\n');
+    } else {
+      report.forEach(({ watch, baseline, diff, error }) => {
+        console.log(chalk.cyan(`\n${watch.name} (${watch.id})`));
+        if (error) {
+          console.log(chalk.red(`  ❌ Failed: ${error}`));
+        } else if (baseline) {
+          console.log(chalk.gray('  Baseline snapshot recorded'));
+        } else if (!diff!.hasChanges) {
+          console.log(chalk.gray('  No changes'));
+        } else {
+          diff!.added.forEach(r => console.log(chalk.green(`  + New filing: ${r.mark} (${r.applicationNumber || 'no number'}) by ${r.owner || 'unknown owner'}, ${r.status}`)));
+          diff!.statusChanges.forEach(c => console.log(chalk.yellow(`  ~ Status: ${c.mark} (${c.key}) ${c.from} → ${c.to}`)));
+          diff!.ownerChanges.forEach(c => console.log(chalk.yellow(`  ~ Owner: ${c.mark} (${c.key}) ${c.from} → ${c.to}`)));
+          diff!.removed.forEach(r => console.log(chalk.red(`  - Removed: ${r.mark} (${r.applicationNumber || 'no number'})`)));
+        }
+        if (diff?.truncated) {
+          console.log(chalk.gray(`  Results were cut off at the limit (${watch.params.limit}); removals are not reported, raise --limit to compare every result`));
+        }
+      });
+    }
+
+    // Failures take precedence over changes so cron can tell them apart
+    if (report.some(entry => entry.error)) process.exit(1);
+    if (report.some(entry => entry.diff?.hasChanges)) process.exit(2);
+  });
+
+program
+  .command('sources')
+  .description('List the trademark registers that can be searched')
+  .action(() => {
+    console.log(chalk.blue('📚 Trademark sources:'));
+    listSources().forEach(source => {
+      console.log(chalk.yellow(`\n  ${source.id}${source.id === DEFAULT_SOURCE_ID ? ' (default)' : ''}`));
+      console.log(`    Name: ${source.name}`);
+      console.log(`    URL: ${source.baseUrl}`);
+      console.log(`    Search types: ${source.capabilities.searchTypes.join(', ')}`);
+      console.log(`    Filters: ${source.capabilities.filters.join(', ') || 'none'}`);
+    });
+  });
+
+program
+  .command('nice')
+  .description('List Nice classes, look classes up by number, or suggest classes for a description of goods or services')
+  .argument('[terms...]', 'Class numbers, or a description such as "running shoes and sportswear"')
+  .option('-l, --limit <n>', 'Maximum number of suggested classes', '5')
+  .option('--llm', 'Suggest with the configured formatter\'s model instead of the local keyword matcher')
+  .option('-f, --format <format>', 'Output format (table, json)', 'table')
+  .action(async (terms: string[], options) => {
+    try {
+      const json = options.format === 'json';
+      const text = terms.join(' ').trim();
+
+      // Numbers, or nothing at all, are a catalog lookup
+      if (!text || /^[\d,;\s]+$/.test(text)) {
+        const numbers = text ? parseNiceClasses(text) : NICE_CLASSES.map(niceClass => niceClass.number);
+        const invalid = numbers.filter(number => !getNiceClass(number));
+        if (invalid.length > 0) {
+          throw new Error(`Nice classes run from 1 to ${NICE_CLASS_COUNT}, got ${invalid.join(', ')}`);
+        }
+
+        const classes = numbers.map(number => getNiceClass(number)!);
+        if (json) {
+          console.log(JSON.stringify(classes, null, 2));
+          return;
+        }
+        classes.forEach(niceClass => {
+          console.log(`${chalk.yellow(`${String(niceClass.number).padStart(2)}.`)} ${chalk.white(niceClass.title)}${niceClass.number <= 34 ? '' : chalk.gray(' (services)')}`);
+          if (text) {
+            console.log(`    ${niceClass.heading}`);
+            console.log(chalk.gray(`    ${niceClass.note}`));
+          }
+        });
+        return;
+      }
+
+      const limit = parseInt(options.limit);
+      let suggestions: NiceSuggestion[] | undefined;
+      let method = 'keyword matching';
+
+      if (options.llm) {
+        const formatter = createFormatter();
+        if (!(formatter instanceof LLMFormatter)) {
+          throw new Error('--llm needs a model-backed formatter (gemini, openai or ollama) with its credentials');
+        }
+        try {
+          suggestions = await suggestNiceClassesWithModel(text, formatter, limit);
+          method = `${formatter.name} ${formatter.model}`;
+        } catch (error) {
+          console.error(chalk.yellow(`⚠️  Model suggestion failed, using keyword matching: ${error instanceof Error ? error.message : error}`));
+        }
+      }
+      suggestions ??= suggestNiceClasses(text, limit);
+
+      if (json) {
+        console.log(JSON.stringify(suggestions, null, 2));
+        return;
+      }
+      if (suggestions.length === 0) {
+        console.log(chalk.yellow('No matching classes; try describing the goods or services in other words, or use --llm'));
+        return;
+      }
+
+      console.log(chalk.blue(`Suggested Nice classes for "${text}" (${method}):\n`));
+      suggestions.forEach(suggestion => {
+        console.log(`${chalk.yellow(`${String(suggestion.number).padStart(2)}.`)} ${chalk.white(suggestion.title)} ${chalk.gray(`score ${suggestion.score.toFixed(2)}`)}`);
+        if (suggestion.reason) console.log(`    ${suggestion.reason}`);
+        if (suggestion.matchedTerms?.length) console.log(chalk.gray(`    Matched: ${suggestion.matchedTerms.join(', ')}`));
+      });
+    } catch (error) {
+      console.error(chalk.red('❌ Error:'), error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+program
+  .command('similar-logos <file>')
+  .description('Find stored result images that look like a local logo file (see search --images)')
+  .option('-l, --limit <n>', 'Maximum number of matches', '10')
+  .option('--threshold <similarity>', 'Lowest visual similarity to report, from 0 to 1', '0.75')
+  .option('-f, --format <format>', 'Output format (table, json)', 'table')
+  .action(async (file: string, options) => {
+    try {
+      const threshold = Number(options.threshold);
+      if (!(threshold >= 0 && threshold <= 1)) {
+        throw new Error(`--threshold must be between 0 and 1, got "${options.threshold}"`);
+      }
+
+      const store = new ImageStore();
+      const stored = await store.list();
+      if (stored.length === 0) {
+        console.log(chalk.yellow(`No stored images in ${config.images.dir}; run a search with --images first`));
+        return;
+      }
+
+      const hash = await hashImageFile(file);
+      const matches = await store.findSimilar(hash, { limit: parseInt(options.limit), threshold });
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ file, hash, matches }, null, 2));
+        return;
+      }
+      if (matches.length === 0) {
+        console.log(chalk.yellow(`No stored image of ${stored.length} reaches a similarity of ${threshold}`));
+        return;
+      }
+
+      console.log(chalk.blue(`${matches.length} of ${stored.length} stored images look like ${file}:\n`));
+      matches.forEach(({ image, similarity }, index) => {
+        const { result } = image;
+        const color = similarity >= 0.9 ? chalk.red : similarity >= 0.8 ? chalk.yellow : chalk.green;
+        console.log(`${chalk.yellow(`${index + 1}. ${result.mark || 'Unknown Mark'}`)} ${color(`similarity ${similarity}`)}`);
+        console.log(`   Application: ${result.applicationNumber || 'N/A'} (${result.country || 'N/A'}), ${result.status}`);
+        console.log(`   Owner: ${result.owner || 'N/A'}`);
+        if (result.niceClasses.length > 0) console.log(`   Nice Classes: ${describeNiceClasses(result.niceClasses)}`);
+        console.log(chalk.gray(`   Image: ${image.path}`));
+        if (result.detailsUrl) console.log(chalk.gray(`   Details: ${result.detailsUrl}`));
+      });
+    } catch (error) {
+      console.error(chalk.red('❌ Error:'), error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
 program
   .command('test')
   .description('Test the agent with a sample search')
-  .action(async () => {
+  .option('--record <dir>', 'Record the pages and XHR responses of this run into a directory')
+  .option('--replay <dir>', 'Replay a recorded run from a directory without network access')
+  .action(async (options) => {
     try {
       console.log(chalk.blue('🧪 Running test search...'));
 
-      const agent = new WIPOSearchAgent();
+      const agent = new WIPOSearchAgent({ recording: parseRecordingOptions(options) });
       const testParams: TrademarkSearchParams = {
         query: 'Nike',
         searchType: 'brand',
@@ -107,7 +731,7 @@ program
       console.log(chalk.yellow('Testing with query: Nike'));
       const results = await agent.search(testParams);
 
-      if (results && results.results.length > 0) {
+      if (results.results.length > 0) {
         console.log(chalk.green('✅ Test passed! Agent is working correctly.'));
         console.log(`Found ${results.results.length} results for test query.`);
       } else {
@@ -115,6 +739,9 @@ program
       }
     } catch (error) {
       console.error(chalk.red('❌ Test failed:'), error instanceof Error ? error.message : 'Unknown error');
+      if (error instanceof WIPOSearchError) {
+        console.error(chalk.gray(`   Reason: ${error.code}${error.step ? ` during ${error.step}` : ''}`));
+      }
       process.exit(1);
     }
   });
@@ -3,19 +3,108 @@ import { z } from 'zod';
 export const TrademarkStatusSchema = z.enum([
   'Active',
   'Registered',
+  'Renewed',
   'Pending',
+  'Under Examination',
+  'Published',
+  'Opposed',
   'Expired',
   'Cancelled',
+  'Refused',
+  'Withdrawn',
+  'Abandoned',
+  'Surrendered',
+  'Invalidated',
   'Unknown'
 ]);
 
-export const TrademarkSearchParamsSchema = z.object({
-  query: z.string().min(1, 'Search query is required'),
-  searchType: z.enum(['brand', 'owner', 'number']).default('brand'),
+/** Whether a status still protects the mark (or may lead to protection) */
+export const TrademarkStatusGroupSchema = z.enum(['live', 'dead', 'unknown']);
+
+/** Comma-separated Nice class numbers, each from 1 to 45 */
+export const NiceClassListSchema = z.string().refine(
+  value => {
+    const classes = value.split(/[,;\s]+/).filter(n => n.length > 0);
+    return classes.length > 0 && classes.every(n => /^\d+$/.test(n) && Number(n) >= 1 && Number(n) <= 45);
+  },
+  'Nice classes must be numbers from 1 to 45, separated by commas, semicolons or spaces'
+);
+
+/**
+ * The search fields on their own, e.g. for tool input schemas. Parse with
+ * {@link TrademarkSearchParamsSchema}, which also checks the fields that depend on the search type.
+ */
+export const TrademarkSearchFieldsSchema = z.object({
+  /** Required except for image searches */
+  query: z.string().default(''),
+  searchType: z.enum(['brand', 'owner', 'number', 'image']).default('brand'),
+  /** Path of a local logo file, for image searches */
+  image: z.string().optional(),
   country: z.string().optional(),
-  nice: z.string().optional(),
+  nice: NiceClassListSchema.optional(),
   status: TrademarkStatusSchema.optional(),
-  limit: z.number().min(1).max(100).default(10)
+  limit: z.number().min(1).max(100).default(10),
+  details: z.boolean().optional(),
+  /** Download result images into the local image store */
+  images: z.boolean().optional(),
+  source: z.string().optional()
+});
+
+/**
+ * Search parameters: text searches need a query, image searches an image
+ * file. Image searches without a query are labelled with the image's file name.
+ */
+export const TrademarkSearchParamsSchema = TrademarkSearchFieldsSchema
+  .superRefine((params, ctx) => {
+    if (params.searchType === 'image') {
+      if (!params.image) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['image'], message: 'An image file is required for image searches' });
+      }
+    } else {
+      if (!params.query) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['query'], message: 'Search query is required' });
+      }
+      if (params.image) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['image'], message: 'An image file is only used by image searches' });
+      }
+    }
+  })
+  .transform(params => (params.searchType === 'image' && !params.query
+    ? { ...params, query: params.image!.split(/[\\/]/).pop()! }
+    : params));
+
+export const SearchFilterResultSchema = z.object({
+  /** liveOnly and expiringWithin are applied to the results read, after the search */
+  filter: z.enum(['searchType', 'country', 'nice', 'status', 'liveOnly', 'expiringWithin']),
+  value: z.string(),
+  applied: z.boolean(),
+  reason: z.string().optional()
+});
+
+export const TrademarkSimilaritySchema = z.object({
+  score: z.number().min(0).max(1),
+  risk: z.enum(['high', 'medium', 'low']),
+  factors: z.object({
+    string: z.number(),
+    phonetic: z.number(),
+    prefix: z.number(),
+    classOverlap: z.number().optional()
+  })
+});
+
+export const ParseProvenanceSchema = z.object({
+  /** rules: parsed without a model; llm: first model reply; llm_repaired: after a repair round; fallback: model output rejected */
+  method: z.enum(['rules', 'llm', 'llm_repaired', 'fallback']),
+  formatter: z.string(),
+  model: z.string().optional(),
+  /** Validation issues that led to a repair round or the fallback */
+  issues: z.array(z.string()).optional()
+});
+
+/** Perceptual hashes of a mark's image, 64 bits each as hex */
+export const ImageHashSchema = z.object({
+  aHash: z.string().regex(/^[0-9a-f]{16}$/),
+  dHash: z.string().regex(/^[0-9a-f]{16}$/)
 });
 
 export const TrademarkResultSchema = z.object({
@@ -23,15 +112,28 @@ export const TrademarkResultSchema = z.object({
   registrationNumber: z.string().optional(),
   mark: z.string(),
   owner: z.string(),
+  /** Canonical code (ISO 3166 or EM, OA, AP, BX, WO), or the register's text when unrecognised */
   country: z.string(),
+  countryName: z.string().optional(),
+  /** ISO-8601 (YYYY-MM-DD) when the register's date could be parsed, empty when unknown */
   filingDate: z.string(),
   registrationDate: z.string().optional(),
   expiryDate: z.string().optional(),
+  /** Set when expiryDate was computed from the jurisdiction's term rules rather than read from the register */
+  expiryDateComputed: z.boolean().optional(),
   status: TrademarkStatusSchema,
+  statusGroup: TrademarkStatusGroupSchema.optional(),
+  /** The status as the register wrote it */
+  statusText: z.string().optional(),
   niceClasses: z.array(z.number()),
   goodsServices: z.string().optional(),
   imageUrl: z.string().url().optional(),
-  detailsUrl: z.string().url().optional()
+  /** Local copy of the image in the image store */
+  imagePath: z.string().optional(),
+  imageHash: ImageHashSchema.optional(),
+  detailsUrl: z.string().url().optional(),
+  similarity: TrademarkSimilaritySchema.optional(),
+  provenance: ParseProvenanceSchema.optional()
 });
 
 export const SearchResultsSchema = z.object({
@@ -39,10 +141,33 @@ export const SearchResultsSchema = z.object({
   totalResults: z.number(),
   page: z.number(),
   results: z.array(TrademarkResultSchema),
+  filters: z.array(SearchFilterResultSchema).optional(),
   searchTime: z.number(),
-  timestamp: z.date()
+  timestamp: z.date(),
+  fromCache: z.boolean().optional()
 });
 
+export const AgentStepSchema = z.enum([
+  'initialize',
+  'authenticate',
+  'search',
+  'navigate',
+  'extractResults',
+  'enrichDetails',
+  'formatResults',
+  'complete',
+  'error'
+]);
+
+export const AgentErrorCodeSchema = z.enum([
+  'TIMEOUT',
+  'CAPTCHA',
+  'LAYOUT_CHANGED',
+  'BROWSER_CLOSED',
+  'CANCELLED',
+  'UNKNOWN'
+]);
+
 export const AgentStateSchema = z.object({
   searchParams: TrademarkSearchParamsSchema,
   searchResults: SearchResultsSchema.optional(),
@@ -55,26 +180,37 @@ export const AgentStateSchema = z.object({
       domain: z.string()
     })).optional()
   }).optional(),
-  currentStep: z.enum([
-    'initialize',
-    'authenticate',
-    'search',
-    'extractResults',
-    'formatResults',
-    'complete',
-    'error'
-  ]),
+  currentStep: AgentStepSchema,
   rawResults: z.array(z.any()).optional(),
+  filters: z.array(SearchFilterResultSchema).optional(),
+  pagination: z.object({
+    totalResults: z.number(),
+    page: z.number(),
+    pageSize: z.number().optional()
+  }).optional(),
+  navigation: z.object({
+    success: z.boolean(),
+    steps: z.number(),
+    message: z.string()
+  }).optional(),
   error: z.object({
     message: z.string(),
-    code: z.string().optional(),
+    code: AgentErrorCodeSchema.optional(),
+    step: AgentStepSchema.optional(),
     retry: z.boolean().default(false)
   }).optional(),
   retryCount: z.number().default(0)
 });
 
 export type TrademarkStatus = z.infer<typeof TrademarkStatusSchema>;
+export type TrademarkStatusGroup = z.infer<typeof TrademarkStatusGroupSchema>;
 export type TrademarkSearchParams = z.infer<typeof TrademarkSearchParamsSchema>;
+export type SearchFilterResult = z.infer<typeof SearchFilterResultSchema>;
+export type TrademarkSimilarity = z.infer<typeof TrademarkSimilaritySchema>;
+export type ParseProvenance = z.infer<typeof ParseProvenanceSchema>;
+export type ImageHash = z.infer<typeof ImageHashSchema>;
 export type TrademarkResult = z.infer<typeof TrademarkResultSchema>;
 export type SearchResults = z.infer<typeof SearchResultsSchema>;
+export type AgentStep = z.infer<typeof AgentStepSchema>;
+export type AgentErrorCode = z.infer<typeof AgentErrorCodeSchema>;
 export type AgentState = z.infer<typeof AgentStateSchema>;
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { TrademarkSearchParamsSchema } from '../schemas/trademarkSchema.js';
+import { resolveUploadPath } from '../services/imageStore.js';
+import { normalizeCountryFilter } from '../services/jurisdictions.js';
+import { findUnsupported, getSource } from '../sources/index.js';
+import { SearchJob, SearchJobQueue } from './jobQueue.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Serializes a job with the same SearchResults shape the CLI emits as JSON.
+ */
+function toJobResponse(job: SearchJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    params: job.params,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    results: job.results,
+    error: job.error,
+    links: { self: `/searches/${job.id}` }
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload)
+  });
+  res.end(payload);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+/**
+ * HTTP API exposing trademark searches as asynchronous jobs:
+ *
+ *   POST   /searches      submit TrademarkSearchParams, returns 202 with the job id
+ *   GET    /searches/:id  job status and, once completed, its SearchResults
+ *   DELETE /searches/:id  cancel a queued or running job
+ *   GET    /health        liveness and queue counts
+ */
+export function createSearchServer(queue: SearchJobQueue): Server {
+  const startedAt = Date.now();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const jobMatch = url.pathname.match(/^\/searches\/([^/]+)\/?$/);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', uptimeMs: Date.now() - startedAt, jobs: queue.stats() });
+      return;
+    }
+
+    if (/^\/searches\/?$/.test(url.pathname)) {
+      if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+
+      const parsed = TrademarkSearchParamsSchema.safeParse(await readJsonBody(req));
+      if (!parsed.success) {
+        throw new HttpError(400, 'Invalid search parameters', parsed.error.issues);
+      }
+
+      let source;
+      let params;
+      try {
+        source = getSource(parsed.data.source);
+        params = normalizeCountryFilter(parsed.data);
+        if (params.image) params = { ...params, image: await resolveUploadPath(params.image) };
+      } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : 'Invalid search parameters');
+      }
+
+      const unsupported = findUnsupported(source, params);
+      if (unsupported.length > 0) {
+        throw new HttpError(400, `${source.name} does not support ${unsupported.join(', ')}`);
+      }
+
+      const job = queue.submit(params);
+      res.setHeader('Location', `/searches/${job.id}`);
+      sendJson(res, 202, toJobResponse(job));
+      return;
+    }
+
+    if (jobMatch) {
+      const id = decodeURIComponent(jobMatch[1]);
+
+      if (req.method === 'GET') {
+        const job = queue.get(id);
+        if (!job) throw new HttpError(404, `Search ${id} not found`);
+        sendJson(res, 200, toJobResponse(job));
+        return;
+      }
+
+      if (req.method === 'DELETE') {
+        const job = queue.get(id);
+        if (!job) throw new HttpError(404, `Search ${id} not found`);
+        if (job.status === 'completed' || job.status === 'failed') {
+          throw new HttpError(409, `Search ${id} has already ${job.status === 'completed' ? 'completed' : 'failed'}`);
+        }
+        sendJson(res, 202, toJobResponse(queue.cancel(id)!));
+        return;
+      }
+
+      throw new HttpError(405, 'Method not allowed');
+    }
+
+    throw new HttpError(404, 'Not found');
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message, details: error.details });
+      } else {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : 'Internal server error' });
+      }
+    });
+  });
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { WIPOSearchAgent, WIPOSearchError } from '../agents/wipoSearchAgent.js';
+import { SearchResults, TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { SearchCache } from '../services/searchCache.js';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SearchJob {
+  id: string;
+  params: TrademarkSearchParams;
+  status: JobStatus;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  results?: SearchResults;
+  error?: {
+    message: string;
+    code?: string;
+  };
+}
+
+export interface SearchJobQueueOptions {
+  /** Maximum number of searches, and so browser instances, running at once */
+  concurrency: number;
+  cache?: SearchCache;
+  /** How long finished jobs stay retrievable */
+  retentionMs?: number;
+}
+
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * In-memory queue of search jobs, started in submission order with at most
+ * `concurrency` running at a time.
+ */
+export class SearchJobQueue {
+  private jobs = new Map<string, SearchJob>();
+  private waiting: string[] = [];
+  private controllers = new Map<string, AbortController>();
+
+  constructor(private options: SearchJobQueueOptions) {}
+
+  submit(params: TrademarkSearchParams): SearchJob {
+    this.prune();
+
+    const job: SearchJob = {
+      id: randomUUID(),
+      params,
+      status: 'queued',
+      createdAt: new Date()
+    };
+
+    this.jobs.set(job.id, job);
+    this.waiting.push(job.id);
+    this.drain();
+    return job;
+  }
+
+  get(id: string): SearchJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Cancels a queued or running job. Finished jobs are returned unchanged.
+   */
+  cancel(id: string): SearchJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (job.status === 'queued') {
+      this.waiting = this.waiting.filter(waitingId => waitingId !== id);
+      this.finish(job, 'cancelled', { error: { message: 'Cancelled before start', code: 'CANCELLED' } });
+    } else if (job.status === 'running') {
+      this.controllers.get(id)?.abort();
+    }
+
+    return job;
+  }
+
+  stats(): Record<JobStatus, number> & { concurrency: number } {
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+    this.jobs.forEach(job => counts[job.status]++);
+    return { ...counts, concurrency: this.options.concurrency };
+  }
+
+  /**
+   * Aborts every running job and drops the queued ones.
+   */
+  shutdown(): void {
+    [...this.waiting].forEach(id => this.cancel(id));
+    this.controllers.forEach(controller => controller.abort());
+  }
+
+  private drain(): void {
+    while (this.controllers.size < this.options.concurrency && this.waiting.length > 0) {
+      const job = this.jobs.get(this.waiting.shift()!);
+      if (job) {
+        void this.start(job);
+      }
+    }
+  }
+
+  private async start(job: SearchJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    job.status = 'running';
+    job.startedAt = new Date();
+
+    try {
+      const agent = new WIPOSearchAgent({ cache: this.options.cache });
+      const results = await agent.search(job.params, { signal: controller.signal });
+      this.finish(job, 'completed', { results });
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      this.finish(job, cancelled ? 'cancelled' : 'failed', {
+        error: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          code: cancelled ? 'CANCELLED' : error instanceof WIPOSearchError ? error.code : undefined
+        }
+      });
+    } finally {
+      this.controllers.delete(job.id);
+      this.drain();
+    }
+  }
+
+  private finish(job: SearchJob, status: JobStatus, update: Partial<SearchJob>): void {
+    Object.assign(job, update, { status, finishedAt: new Date() });
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - (this.options.retentionMs ?? DEFAULT_RETENTION_MS);
+    this.jobs.forEach((job, id) => {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { config } from '../config/config.js';
+import { launchBrowser } from '../tools/browserSession.js';
+import { createTrademarkMcpServer } from './mcpServer.js';
+
+vi.mock('../tools/browserSession.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../tools/browserSession.js')>()),
+  launchBrowser: vi.fn(async () => { throw new Error('No browser in tests'); })
+}));
+
+async function connect(): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createTrademarkMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe('get_trademark_details', () => {
+  it('refuses a URL outside the source\'s site without opening a browser', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: 'get_trademark_details',
+      arguments: { url: 'http://169.254.169.254/latest/meta-data/' }
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{
+      type: 'text',
+      text: `Details URL must be on ${new URL(config.wipo.baseUrl).origin}, got http://169.254.169.254/latest/meta-data/`
+    }]);
+    expect(launchBrowser).not.toHaveBeenCalled();
+    await client.close();
+  });
+
+  it('opens a details page on the source\'s site', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: 'get_trademark_details',
+      arguments: { url: new URL('/details/123', config.wipo.baseUrl).href }
+    });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'No browser in tests' }]);
+    expect(launchBrowser).toHaveBeenCalledOnce();
+    await client.close();
+  });
+});
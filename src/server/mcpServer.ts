@@ -0,0 +1,151 @@
+import { Browser, BrowserContext } from 'playwright';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { WIPOSearchAgent, WIPOSearchError, WORKFLOW_STEPS } from '../agents/wipoSearchAgent.js';
+import {
+  SearchResults,
+  SearchResultsSchema,
+  TrademarkResultSchema,
+  TrademarkSearchFieldsSchema,
+  TrademarkSearchParamsSchema
+} from '../schemas/trademarkSchema.js';
+import { parseDate } from '../services/dates.js';
+import { resolveUploadPath } from '../services/imageStore.js';
+import { SearchCache } from '../services/searchCache.js';
+import { closeBrowserSession } from '../services/sessionRecorder.js';
+import { getSource } from '../sources/index.js';
+import { launchBrowser, newBrowserContext } from '../tools/browserSession.js';
+
+export interface TrademarkMcpServerOptions {
+  cache?: SearchCache;
+}
+
+/** Search results as returned to MCP clients; the timestamp is dropped as it is not JSON */
+const SearchToolOutputSchema = SearchResultsSchema.omit({ timestamp: true });
+
+const DetailsToolOutputSchema = z.object({
+  url: z.string(),
+  details: TrademarkResultSchema.pick({
+    registrationNumber: true,
+    filingDate: true,
+    registrationDate: true,
+    expiryDate: true,
+    niceClasses: true,
+    goodsServices: true
+  }).partial()
+});
+
+function toolError(error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const code = error instanceof WIPOSearchError ? ` [${error.code}]` : '';
+  return { isError: true, content: [{ type: 'text', text: `${message}${code}` }] };
+}
+
+const DATE_FIELDS = ['filingDate', 'registrationDate', 'expiryDate'];
+
+/**
+ * Keeps only the non-empty fields of a details page, with dates as ISO-8601.
+ */
+function compactDetails(details: Record<string, unknown>): z.infer<typeof DetailsToolOutputSchema>['details'] {
+  return Object.fromEntries(
+    Object.entries(details)
+      .filter(([, value]) =>
+        Array.isArray(value) ? value.length > 0 : typeof value === 'string' ? value.trim().length > 0 : value != null
+      )
+      .map(([key, value]) => [key, DATE_FIELDS.includes(key) ? parseDate(value as string) ?? value : value])
+  );
+}
+
+/**
+ * Builds an MCP server exposing the trademark search and details lookup as tools.
+ * Connect it to a transport, e.g. StdioServerTransport, to serve clients.
+ */
+export function createTrademarkMcpServer(options: TrademarkMcpServerOptions = {}): McpServer {
+  const server = new McpServer({ name: 'zx-ai-web-search', version: '1.0.0' });
+
+  server.registerTool(
+    'search_trademarks',
+    {
+      title: 'Search trademarks',
+      description: 'Search a trademark register (WIPO Global Brand Database by default) and return the matching marks.',
+      inputSchema: TrademarkSearchFieldsSchema.shape,
+      outputSchema: SearchToolOutputSchema.shape,
+      annotations: { readOnlyHint: true, openWorldHint: true }
+    },
+    async (params, extra) => {
+      const progressToken = extra._meta?.progressToken;
+      const steps = WORKFLOW_STEPS.filter(step => step !== 'enrichDetails' || params.details);
+
+      const onStep = (node: string) => {
+        const index = steps.indexOf(node as typeof steps[number]);
+        if (progressToken === undefined || index < 0) return;
+
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: index + 1, total: steps.length, message: `Finished ${node}` }
+        }).catch(() => undefined);
+      };
+
+      try {
+        const agent = new WIPOSearchAgent({ cache: options.cache });
+        let searchParams = TrademarkSearchParamsSchema.parse(params);
+        if (searchParams.image) searchParams = { ...searchParams, image: await resolveUploadPath(searchParams.image) };
+        const results: SearchResults = await agent.search(searchParams, { signal: extra.signal, onStep });
+        const { timestamp: _timestamp, ...structured } = results;
+
+        return {
+          structuredContent: structured,
+          content: [{ type: 'text', text: JSON.stringify(structured, null, 2) }]
+        };
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_trademark_details',
+    {
+      title: 'Get trademark details',
+      description: 'Open a trademark\'s details page, e.g. the detailsUrl of a search result, and return its registration details.',
+      inputSchema: {
+        url: z.string().url().describe('Details page URL on the source\'s site'),
+        source: z.string().optional().describe('Source the URL belongs to, defaults to WIPO')
+      },
+      outputSchema: DetailsToolOutputSchema.shape,
+      annotations: { readOnlyHint: true, openWorldHint: true }
+    },
+    async ({ url, source: sourceId }) => {
+      let browser: Browser | undefined;
+      let context: BrowserContext | undefined;
+      try {
+        const source = getSource(sourceId);
+        // Only the register's own pages are opened, never an arbitrary URL a client passes
+        if (new URL(url).origin !== new URL(source.baseUrl).origin) {
+          throw new Error(`Details URL must be on ${new URL(source.baseUrl).origin}, got ${url}`);
+        }
+
+        browser = await launchBrowser();
+        context = await newBrowserContext(browser);
+        const page = await context.newPage();
+
+        // The bot check lives on the register, so pass it there before opening the details page
+        await page.goto(source.baseUrl, { waitUntil: 'networkidle' });
+        await source.authenticate(page);
+        const structured = { url, details: compactDetails(await source.getDetails(page, url)) };
+
+        return {
+          structuredContent: structured,
+          content: [{ type: 'text', text: JSON.stringify(structured, null, 2) }]
+        };
+      } catch (error) {
+        return toolError(error);
+      } finally {
+        await closeBrowserSession(browser, context);
+      }
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { BatchRunner } from './batchRunner.js';
+
+// The batch never opens a page; queries are answered by the stub agent below
+vi.mock('../tools/browserSession.js', () => ({
+  launchBrowser: async () => ({ close: async () => undefined })
+}));
+
+vi.mock('../agents/wipoSearchAgent.js', () => ({
+  WIPOSearchAgent: class {
+    async search(params: TrademarkSearchParams) {
+      if (params.query === 'broken') throw new Error('Search failed');
+      return { query: params.query, results: [], totalResults: 0, page: 1, searchTime: 0, timestamp: new Date() };
+    }
+  }
+}));
+
+vi.mock('fs/promises', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs/promises')>();
+  return { ...actual, writeFile: vi.fn(actual.writeFile) };
+});
+
+function query(id: string, text: string) {
+  return { id, params: { query: text, searchType: 'brand' as const, limit: 10 } };
+}
+
+describe('BatchRunner checkpoint', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'batch-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps saving after a checkpoint write fails', async () => {
+    const checkpointPath = path.join(dir, 'checkpoint.json');
+    vi.mocked(writeFile).mockRejectedValueOnce(new Error('disk full'));
+    const runner = new BatchRunner({ concurrency: 1, checkpointPath });
+
+    const outcomes = await runner.run('queries.csv', [query('1', 'nike'), query('2', 'broken')]);
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['ok', 'failed']);
+    const saved = JSON.parse(await readFile(checkpointPath, 'utf-8'));
+    expect(Object.keys(saved.outcomes)).toEqual(['1', '2']);
+  });
+});
@@ -0,0 +1,249 @@
+import { Browser } from 'playwright';
+import { existsSync } from 'fs';
+import { readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { WIPOSearchAgent } from '../agents/wipoSearchAgent.js';
+import {
+  SearchResults,
+  TrademarkSearchParams,
+  TrademarkSearchParamsSchema
+} from '../schemas/trademarkSchema.js';
+import { assertSourceSupports, getSource } from '../sources/index.js';
+import { SearchCache, cacheKey } from './searchCache.js';
+import { normalizeCountryFilter } from './jurisdictions.js';
+import { RecordingOptions } from './sessionRecorder.js';
+import { launchBrowser } from '../tools/browserSession.js';
+import { getLogger } from './logger.js';
+
+const logger = getLogger('batch');
+
+export interface BatchQuery {
+  id: string;
+  params: TrademarkSearchParams;
+}
+
+export interface BatchOutcome {
+  id: string;
+  params: TrademarkSearchParams;
+  status: 'ok' | 'failed';
+  error?: string;
+  results?: SearchResults;
+  completedAt: string;
+}
+
+interface BatchCheckpoint {
+  input: string;
+  outcomes: Record<string, BatchOutcome>;
+}
+
+export interface BatchRunnerOptions {
+  concurrency: number;
+  checkpointPath: string;
+  cache?: SearchCache;
+  recording?: RecordingOptions;
+  /** Ignore an existing checkpoint instead of resuming from it */
+  fresh?: boolean;
+}
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with embedded
+ * commas, quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim().length > 0));
+}
+
+/**
+ * Reads a batch file of queries. CSV files need a header row with a `query`
+ * column and may add `type`, `country`, `nice`, `status` and `limit`; JSON
+ * files hold an array of query strings or objects with the same keys.
+ */
+export async function loadBatchFile(file: string, defaults: Partial<TrademarkSearchParams> = {}): Promise<BatchQuery[]> {
+  const text = await readFile(file, 'utf-8');
+  let rows: Array<Record<string, unknown>>;
+
+  if (path.extname(file).toLowerCase() === '.json') {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error('Batch JSON file must contain an array of queries');
+    rows = data.map(item => (typeof item === 'string' ? { query: item } : item));
+  } else {
+    const [header, ...lines] = parseCsv(text);
+    if (!header) throw new Error('Batch CSV file is empty');
+    const columns = header.map(column => column.trim().toLowerCase());
+    if (!columns.includes('query')) throw new Error('Batch CSV file needs a "query" column');
+    rows = lines.map(line => Object.fromEntries(columns.map((column, i) => [column, line[i]?.trim() || undefined])));
+  }
+
+  const queries = rows.map((row, index) => {
+    const parsed = TrademarkSearchParamsSchema.safeParse({
+      ...defaults,
+      query: row.query,
+      searchType: row.type ?? row.searchType ?? defaults.searchType,
+      country: row.country ?? defaults.country,
+      nice: row.nice !== undefined ? String(row.nice) : defaults.nice,
+      status: row.status ?? defaults.status,
+      limit: row.limit !== undefined ? Number(row.limit) : defaults.limit
+    });
+
+    if (!parsed.success) {
+      throw new Error(`Invalid batch row ${index + 1}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+
+    let params: TrademarkSearchParams;
+    try {
+      params = normalizeCountryFilter(parsed.data);
+    } catch (error) {
+      throw new Error(`Invalid batch row ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    assertSourceSupports(getSource(params.source), params);
+    return { id: cacheKey(params), params };
+  });
+
+  // Identical rows share a key and are searched once
+  return Array.from(new Map(queries.map(query => [query.id, query])).values());
+}
+
+/**
+ * Runs many searches through one browser, a few contexts at a time, saving
+ * each outcome to a checkpoint file so an interrupted batch resumes where it
+ * stopped. A failed query is recorded and the batch carries on.
+ */
+export class BatchRunner {
+  private checkpoint: BatchCheckpoint = { input: '', outcomes: {} };
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private options: BatchRunnerOptions) {}
+
+  async run(input: string, queries: BatchQuery[]): Promise<BatchOutcome[]> {
+    await this.loadCheckpoint(input);
+
+    const pending = queries.filter(query => this.checkpoint.outcomes[query.id]?.status !== 'ok');
+    const done = queries.length - pending.length;
+    if (done > 0) {
+      logger.info(`⏩ Resuming: ${done} of ${queries.length} queries already completed`);
+    }
+
+    let browser: Browser | undefined;
+    try {
+      if (pending.length > 0) {
+        browser = await launchBrowser();
+      }
+
+      let completed = done;
+      const worker = async () => {
+        for (let query = pending.shift(); query; query = pending.shift()) {
+          const outcome = await this.runQuery(query, browser!);
+          completed++;
+          if (outcome.status === 'ok') {
+            logger.info(`[${completed}/${queries.length}] ${query.params.query}: ✓ ${outcome.results!.results.length} results`);
+          } else {
+            logger.warn(`[${completed}/${queries.length}] ${query.params.query}: ✗ ${outcome.error}`);
+          }
+          await this.saveOutcome(outcome);
+        }
+      };
+
+      const workers = Math.max(1, Math.min(this.options.concurrency, pending.length));
+      await Promise.all(Array.from({ length: workers }, worker));
+    } finally {
+      await browser?.close();
+    }
+
+    const outcomes = queries.map(query => this.checkpoint.outcomes[query.id]);
+    // A finished batch has nothing to resume, and a stale checkpoint would skip every query next time
+    if (outcomes.every(outcome => outcome.status === 'ok')) {
+      await this.saving;
+      await rm(this.options.checkpointPath, { force: true });
+    }
+    return outcomes;
+  }
+
+  private async runQuery(query: BatchQuery, browser: Browser): Promise<BatchOutcome> {
+    try {
+      const agent = new WIPOSearchAgent({
+        browser,
+        cache: this.options.cache,
+        recording: this.options.recording
+      });
+      const results = await agent.search(query.params);
+      return { id: query.id, params: query.params, status: 'ok', results, completedAt: new Date().toISOString() };
+    } catch (error) {
+      return {
+        id: query.id,
+        params: query.params,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date().toISOString()
+      };
+    }
+  }
+
+  private async loadCheckpoint(input: string): Promise<void> {
+    const { checkpointPath, fresh } = this.options;
+    if (!fresh && existsSync(checkpointPath)) {
+      const saved: BatchCheckpoint = JSON.parse(await readFile(checkpointPath, 'utf-8'));
+      if (path.resolve(saved.input) !== path.resolve(input)) {
+        throw new Error(`Checkpoint ${checkpointPath} belongs to ${saved.input}, not ${input}; use --fresh or another --checkpoint`);
+      }
+      for (const outcome of Object.values(saved.outcomes)) {
+        if (outcome.results) {
+          outcome.results.timestamp = new Date(outcome.results.timestamp);
+        }
+      }
+      this.checkpoint = saved;
+    }
+    this.checkpoint.input = input;
+  }
+
+  private saveOutcome(outcome: BatchOutcome): Promise<void> {
+    this.checkpoint.outcomes[outcome.id] = outcome;
+    // Chain writes so concurrent workers never interleave partial files. A failed
+    // write is logged rather than passed on, so it neither stops the batch nor every
+    // later save; the next write carries its outcome too
+    this.saving = this.saving.then(() =>
+      writeFile(this.options.checkpointPath, JSON.stringify(this.checkpoint, null, 2), 'utf-8')
+        .catch(error => {
+          logger.warn(`⚠️  Could not save checkpoint ${this.options.checkpointPath}: ${error instanceof Error ? error.message : error}`);
+        })
+    );
+    return this.saving;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { addYears, daysBetween, parseDate, toIsoDate } from './dates.js';
+
+describe('toIsoDate', () => {
+  it('formats real dates and rejects impossible ones', () => {
+    expect(toIsoDate(2020, 1, 5)).toBe('2020-01-05');
+    expect(toIsoDate(2020, 2, 29)).toBe('2020-02-29');
+    expect(toIsoDate(2021, 2, 29)).toBeUndefined();
+    expect(toIsoDate(2020, 13, 1)).toBeUndefined();
+  });
+});
+
+describe('parseDate', () => {
+  it('reads ISO dates, timestamps and compact dates', () => {
+    expect(parseDate('2020-01-15')).toBe('2020-01-15');
+    expect(parseDate('2020/1/5')).toBe('2020-01-05');
+    expect(parseDate('2020-01-15T00:00:00Z')).toBe('2020-01-15');
+    expect(parseDate('20200115')).toBe('2020-01-15');
+  });
+
+  it('reads numeric dates day first by default', () => {
+    expect(parseDate('03.04.2020')).toBe('2020-04-03');
+    expect(parseDate('03/04/2020')).toBe('2020-04-03');
+  });
+
+  it('reads numeric dates month first for month-first registers', () => {
+    expect(parseDate('03/04/2020', { country: 'US' })).toBe('2020-03-04');
+  });
+
+  it('uses a part that can only be a day regardless of the register', () => {
+    expect(parseDate('01/15/2020')).toBe('2020-01-15');
+    expect(parseDate('15/01/2020', { country: 'US' })).toBe('2020-01-15');
+  });
+
+  it('reads English month names in either order', () => {
+    expect(parseDate('15 Jan 2020')).toBe('2020-01-15');
+    expect(parseDate('15-Jan-2020')).toBe('2020-01-15');
+    expect(parseDate('1st March 2021')).toBe('2021-03-01');
+    expect(parseDate('January 15, 2020')).toBe('2020-01-15');
+    expect(parseDate('Sept. 3 2019')).toBe('2019-09-03');
+  });
+
+  it('finds the date inside surrounding text', () => {
+    expect(parseDate('Filed on 15.01.2020 (WIPO)')).toBe('2020-01-15');
+  });
+
+  it('returns undefined for text without a valid date', () => {
+    expect(parseDate(undefined)).toBeUndefined();
+    expect(parseDate('  ')).toBeUndefined();
+    expect(parseDate('pending')).toBeUndefined();
+    expect(parseDate('31/02/2020')).toBeUndefined();
+    expect(parseDate('15 Foo 2020')).toBeUndefined();
+  });
+});
+
+describe('addYears', () => {
+  it('adds whole years', () => {
+    expect(addYears('2015-06-30', 10)).toBe('2025-06-30');
+  });
+
+  it('moves 29 February to 28 February in non-leap years', () => {
+    expect(addYears('2020-02-29', 1)).toBe('2021-02-28');
+    expect(addYears('2020-02-29', 4)).toBe('2024-02-29');
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts whole days, negative when going back', () => {
+    expect(daysBetween('2024-01-01', '2024-03-01')).toBe(60);
+    expect(daysBetween('2024-03-01', '2024-01-01')).toBe(-60);
+  });
+});
@@ -0,0 +1,85 @@
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+// Registers that write numeric dates month first, e.g. 01/15/2020
+const MONTH_FIRST_COUNTRIES = new Set(['US', 'PH', 'FM', 'MH', 'PW']);
+
+export interface ParseDateOptions {
+  /** Country code of the register, used to read ambiguous dates such as 03/04/2020 */
+  country?: string;
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD, or returns undefined if the parts
+ * do not form a real date (e.g. 31 February).
+ */
+export function toIsoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function monthNumber(name: string): number | undefined {
+  return MONTHS[name.toLowerCase().slice(0, 3)];
+}
+
+/**
+ * Parses the date formats trademark registers display into an ISO-8601 date
+ * (YYYY-MM-DD): ISO dates and timestamps, compact YYYYMMDD, day-first numeric
+ * dates with dots, slashes or dashes, and English month names such as
+ * "15 Jan 2020" or "January 15, 2020". Numeric dates are read day first
+ * unless a part can only be a day or the register writes month first.
+ * Returns undefined when the text holds no valid date.
+ */
+export function parseDate(text: string | undefined, options: ParseDateOptions = {}): string | undefined {
+  const value = text?.trim();
+  if (!value) return undefined;
+
+  // 2020-01-15, 2020/01/15, 2020.01.15, 2020-01-15T00:00:00Z
+  let match = value.match(/(?<!\d)(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  // 15.01.2020, 15/01/2020, 15-01-2020, or 01/15/2020
+  match = value.match(/(?<!\d)(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?!\d)/);
+  if (match) {
+    const [first, second, year] = [+match[1], +match[2], +match[3]];
+    const monthFirst = first > 12 ? false : second > 12 ? true : MONTH_FIRST_COUNTRIES.has(options.country ?? '');
+    return monthFirst ? toIsoDate(year, first, second) : toIsoDate(year, second, first);
+  }
+
+  // 15 Jan 2020, 15-Jan-2020, 15 January 2020
+  match = value.match(/(?<!\d)(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?[\s-,]+(\d{4})(?!\d)/);
+  if (match && monthNumber(match[2])) return toIsoDate(+match[3], monthNumber(match[2])!, +match[1]);
+
+  // Jan 15, 2020, January 15 2020
+  match = value.match(/([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})(?!\d)/);
+  if (match && monthNumber(match[1])) return toIsoDate(+match[3], monthNumber(match[1])!, +match[2]);
+
+  // 20200115, as WIPO exports write dates
+  match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  return undefined;
+}
+
+/**
+ * Adds whole years to an ISO date; 29 February falls back to 28 February in non-leap years.
+ */
+export function addYears(isoDate: string, years: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return toIsoDate(year + years, month, day) ?? toIsoDate(year + years, month, day - 1)!;
+}
+
+/**
+ * Whole days from one ISO date to another, negative when `to` is earlier.
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+export function today(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
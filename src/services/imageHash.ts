@@ -0,0 +1,156 @@
+import { Page } from 'playwright';
+import { ImageHash } from '../schemas/trademarkSchema.js';
+
+/** Side of the grayscale grid images are decoded to before hashing */
+export const PIXEL_GRID_SIZE = 64;
+
+// Brighter pixels count as background when trimming margins around a logo
+const BACKGROUND_LEVEL = 245;
+const HASH_BITS = 64;
+
+/** A square grayscale image, row by row, with levels from 0 (black) to 255 (white) */
+export interface GrayscaleImage {
+  size: number;
+  pixels: number[];
+}
+
+/**
+ * Decodes image bytes with the browser's image decoder and draws them onto a
+ * white {@link PIXEL_GRID_SIZE} square grid in grayscale, so transparent logos
+ * hash like logos on paper. The page should be blank (e.g. about:blank) so no
+ * site content security policy blocks the data URL.
+ */
+export async function decodeGrayscale(page: Page, bytes: Buffer, contentType: string): Promise<GrayscaleImage> {
+  const src = `data:${contentType};base64,${bytes.toString('base64')}`;
+  const pixels = await page.evaluate(async ({ src, size }) => {
+    const image = new Image();
+    image.src = src;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, size, size);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, 0, 0, size, size);
+
+    const { data } = context.getImageData(0, 0, size, size);
+    const gray: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      gray.push(Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]));
+    }
+    return gray;
+  }, { src, size: PIXEL_GRID_SIZE });
+
+  return { size: PIXEL_GRID_SIZE, pixels };
+}
+
+/**
+ * Crops background margins so the same logo with more or less padding hashes alike.
+ */
+function trimBackground(image: GrayscaleImage): { left: number; top: number; width: number; height: number } {
+  const { size, pixels } = image;
+  let [left, top, right, bottom] = [size, size, -1, -1];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (pixels[y * size + x] < BACKGROUND_LEVEL) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+
+  // A blank image keeps its full frame
+  if (right < 0) return { left: 0, top: 0, width: size, height: size };
+  return { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * Shrinks the trimmed image to width × height cells, each the mean of the
+ * pixels it covers; crops smaller than the thumbnail repeat pixels.
+ */
+function downsample(image: GrayscaleImage, width: number, height: number): number[] {
+  const area = trimBackground(image);
+  const span = (cell: number, cells: number, length: number) => {
+    const from = Math.floor((cell * length) / cells);
+    return [from, Math.max(from + 1, Math.floor(((cell + 1) * length) / cells))];
+  };
+
+  const cells: number[] = [];
+  for (let cy = 0; cy < height; cy++) {
+    const [y0, y1] = span(cy, height, area.height);
+    for (let cx = 0; cx < width; cx++) {
+      const [x0, x1] = span(cx, width, area.width);
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += image.pixels[(area.top + y) * image.size + area.left + x];
+        }
+      }
+      cells.push(sum / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+  return cells;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Average hash: one bit per cell of an 8 × 8 thumbnail, set when the cell is brighter than the mean.
+ */
+export function averageHash(image: GrayscaleImage): string {
+  const cells = downsample(image, 8, 8);
+  const mean = cells.reduce((sum, level) => sum + level, 0) / cells.length;
+  return bitsToHex(cells.map(level => level > mean));
+}
+
+/**
+ * Difference hash: one bit per horizontally adjacent pair of a 9 × 8
+ * thumbnail, set when the brightness increases to the right.
+ */
+export function differenceHash(image: GrayscaleImage): string {
+  const cells = downsample(image, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(cells[y * 9 + x + 1] > cells[y * 9 + x]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+export function computeImageHash(image: GrayscaleImage): ImageHash {
+  return { aHash: averageHash(image), dHash: differenceHash(image) };
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length.
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) throw new Error(`Cannot compare hashes of different lengths (${a.length} and ${b.length})`);
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; diff; diff >>= 1) distance += diff & 1;
+  }
+  return distance;
+}
+
+/**
+ * Visual similarity of two images from 0 (unrelated) to 1 (identical
+ * hashes): the share of matching bits over both the average and difference hash.
+ */
+export function imageSimilarity(a: ImageHash, b: ImageHash): number {
+  const distance = hammingDistance(a.aHash, b.aHash) + hammingDistance(a.dHash, b.dHash);
+  return Math.round((1 - distance / (2 * HASH_BITS)) * 100) / 100;
+}
@@ -0,0 +1,104 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BrowserContext } from 'playwright';
+import { TrademarkResult } from '../schemas/trademarkSchema.js';
+import { trademarkResult } from '../testing/trademarkResults.js';
+import { PIXEL_GRID_SIZE } from './imageHash.js';
+import { ImageStore, resolveUploadPath } from './imageStore.js';
+
+/**
+ * A context whose pages "decode" every image to the same grid, enough for
+ * data URLs, which are never fetched.
+ */
+const context = {
+  newPage: async () => ({
+    evaluate: async () => Array.from({ length: PIXEL_GRID_SIZE * PIXEL_GRID_SIZE }, (_, i) => (i % 7) * 30),
+    close: async () => undefined
+  })
+} as unknown as BrowserContext;
+
+function result(mark: string): TrademarkResult {
+  return trademarkResult({
+    applicationNumber: mark,
+    mark,
+    imageUrl: `data:image/png;base64,${Buffer.from(mark).toString('base64')}`
+  });
+}
+
+describe('ImageStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'image-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores images and records them in the index', async () => {
+    const store = new ImageStore(dir);
+    const { results, failures } = await store.storeResultImages(context, [result('ACME'), { ...result('PLAIN'), imageUrl: undefined }]);
+
+    expect(failures).toBe(0);
+    expect(results[0].imagePath).toMatch(/\.png$/);
+    expect(results[0].imageHash?.aHash).toHaveLength(16);
+    expect(results[1].imagePath).toBeUndefined();
+    expect((await store.list()).map(entry => entry.result.mark)).toEqual(['ACME']);
+  });
+
+  it('keeps the entries of searches storing images side by side', async () => {
+    await Promise.all(['ONE', 'TWO', 'THREE'].map(mark => new ImageStore(dir).storeResultImages(context, [result(mark)])));
+
+    const marks = (await new ImageStore(dir).list()).map(entry => entry.result.mark);
+    expect(marks.sort()).toEqual(['ONE', 'THREE', 'TWO']);
+  });
+
+  it('replaces the entry of an image stored again', async () => {
+    const store = new ImageStore(dir);
+    await store.storeResultImages(context, [result('ACME')]);
+    await store.storeResultImages(context, [{ ...result('ACME'), owner: 'Acme Holdings' }]);
+
+    const entries = await store.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].result.owner).toBe('Acme Holdings');
+  });
+});
+
+describe('resolveUploadPath', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'uploads-'));
+    await mkdir(path.join(dir, 'uploads', 'logos'), { recursive: true });
+    await writeFile(path.join(dir, 'uploads', 'logos', 'acme.png'), 'png');
+    await writeFile(path.join(dir, 'secret.png'), 'png');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('resolves paths relative to the upload directory', async () => {
+    const uploads = path.join(dir, 'uploads');
+    await expect(resolveUploadPath('logos/acme.png', uploads)).resolves.toMatch(/logos[\\/]acme\.png$/);
+  });
+
+  it('rejects paths leading out of the upload directory', async () => {
+    const uploads = path.join(dir, 'uploads');
+    await expect(resolveUploadPath('../secret.png', uploads)).rejects.toThrow('outside the upload directory');
+    await expect(resolveUploadPath(path.join(dir, 'secret.png'), uploads)).rejects.toThrow('outside the upload directory');
+  });
+
+  it('rejects symlinks to files outside the upload directory', async () => {
+    const uploads = path.join(dir, 'uploads');
+    await symlink(path.join(dir, 'secret.png'), path.join(uploads, 'link.png'));
+    await expect(resolveUploadPath('link.png', uploads)).rejects.toThrow('outside the upload directory');
+  });
+
+  it('reports files that do not exist', async () => {
+    await expect(resolveUploadPath('missing.png', path.join(dir, 'uploads'))).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,249 @@
+import { createHash } from 'crypto';
+import { access, mkdir, readFile, realpath, writeFile } from 'fs/promises';
+import path from 'path';
+import { BrowserContext } from 'playwright';
+import { ImageHash, TrademarkResult } from '../schemas/trademarkSchema.js';
+import { config } from '../config/config.js';
+import { launchBrowser, newBrowserContext } from '../tools/browserSession.js';
+import { computeImageHash, decodeGrayscale, imageSimilarity } from './imageHash.js';
+import { getLogger } from './logger.js';
+import { closeBrowserSession } from './sessionRecorder.js';
+
+const logger = getLogger('images');
+
+// Pending index writes by store directory; searches running side by side queue their merges here
+const indexWrites = new Map<string, Promise<void>>();
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg'
+};
+
+export interface StoredImage {
+  /** Where the image was downloaded from, one entry per URL */
+  imageUrl: string;
+  /** The downloaded file, named by the SHA-256 of its contents */
+  path: string;
+  contentType: string;
+  hash: ImageHash;
+  /** The mark the image was found on */
+  result: Pick<TrademarkResult, 'mark' | 'applicationNumber' | 'owner' | 'country' | 'status' | 'niceClasses' | 'detailsUrl'>;
+  storedAt: string;
+}
+
+export interface SimilarImage {
+  image: StoredImage;
+  similarity: number;
+}
+
+export interface FindSimilarOptions {
+  limit?: number;
+  /** Lowest similarity to report, from 0 to 1 */
+  threshold?: number;
+}
+
+/**
+ * Guesses an image type from a file name or URL path.
+ */
+export function contentTypeForPath(file: string): string | undefined {
+  const extension = path.extname(file).slice(1).toLowerCase();
+  if (extension === 'jpeg') return 'image/jpeg';
+  return Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === extension);
+}
+
+/**
+ * Rejects a logo file that is missing or of a type browsers cannot decode.
+ */
+export async function assertImageFile(file: string): Promise<void> {
+  if (!contentTypeForPath(file)) {
+    throw new Error(`Unsupported image file ${file}; use ${Object.values(EXTENSIONS).join(', ')}`);
+  }
+  await access(file).catch(() => {
+    throw new Error(`Image file ${file} not found`);
+  });
+}
+
+/**
+ * Resolves a logo path sent by a server client inside the upload directory,
+ * rejecting paths that lead out of it, also through symlinks, so clients
+ * cannot have other files on the server uploaded to the register.
+ */
+export async function resolveUploadPath(file: string, dir: string = config.images.uploadDir): Promise<string> {
+  const root = await realpath(dir).catch(() => {
+    throw new Error(`Image upload directory ${dir} not found`);
+  });
+  const resolved = await realpath(path.resolve(root, file)).catch(() => {
+    throw new Error(`Image file ${file} not found in the upload directory`);
+  });
+
+  const relative = path.relative(root, resolved);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Image file ${file} is outside the upload directory`);
+  }
+  return resolved;
+}
+
+/**
+ * Fetches an image with the context's cookies, so images behind the
+ * register's bot check load like they do in the page. Data URLs are decoded in place.
+ */
+async function downloadImage(context: BrowserContext, url: string): Promise<{ bytes: Buffer; contentType: string }> {
+  const dataUrl = url.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (dataUrl) {
+    const bytes = dataUrl[2] ? Buffer.from(dataUrl[3], 'base64') : Buffer.from(decodeURIComponent(dataUrl[3]));
+    return { bytes, contentType: dataUrl[1].toLowerCase() };
+  }
+
+  const response = await context.request.get(url, { timeout: config.browser.timeout });
+  if (!response.ok()) {
+    throw new Error(`HTTP ${response.status()}`);
+  }
+
+  // Registers often serve images as application/octet-stream; fall back to the URL's extension
+  const header = (response.headers()['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const contentType = EXTENSIONS[header] ? header : contentTypeForPath(new URL(url).pathname);
+  if (!contentType) {
+    throw new Error(`Unsupported image type ${header || 'unknown'}`);
+  }
+  return { bytes: await response.body(), contentType };
+}
+
+/**
+ * Computes the perceptual hash of a local image file in a short-lived headless page.
+ */
+export async function hashImageFile(file: string): Promise<ImageHash> {
+  await assertImageFile(file);
+  const contentType = contentTypeForPath(file)!;
+  const bytes = await readFile(file);
+
+  const browser = await launchBrowser();
+  const context = await newBrowserContext(browser);
+  try {
+    const page = await context.newPage();
+    return computeImageHash(await decodeGrayscale(page, bytes, contentType));
+  } finally {
+    await closeBrowserSession(browser, context);
+  }
+}
+
+/**
+ * Local store of downloaded trademark images with their perceptual hashes,
+ * so figurative marks can be reviewed and compared after the browser closes.
+ */
+export class ImageStore {
+  constructor(private dir: string = config.images.dir) {}
+
+  async list(): Promise<StoredImage[]> {
+    try {
+      return JSON.parse(await readFile(this.indexPath(), 'utf-8'));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Downloads, hashes and stores the image of every result that has one,
+   * returning the results with `imagePath` and `imageHash` set. Images that
+   * cannot be downloaded or decoded are counted as failures and their
+   * results keep only the `imageUrl`.
+   */
+  async storeResultImages(context: BrowserContext, results: TrademarkResult[]): Promise<{ results: TrademarkResult[]; failures: number }> {
+    const added: StoredImage[] = [];
+    const stored: TrademarkResult[] = [];
+    let failures = 0;
+
+    // A blank page decodes the images, out of reach of the register's content security policy
+    const page = await context.newPage();
+    try {
+      for (const result of results) {
+        if (!result.imageUrl) {
+          stored.push(result);
+          continue;
+        }
+
+        try {
+          const { bytes, contentType } = await downloadImage(context, result.imageUrl);
+          const hash = computeImageHash(await decodeGrayscale(page, bytes, contentType));
+          const file = await this.writeImage(bytes, contentType);
+
+          added.push({
+            imageUrl: result.imageUrl,
+            path: file,
+            contentType,
+            hash,
+            result: {
+              mark: result.mark,
+              applicationNumber: result.applicationNumber,
+              owner: result.owner,
+              country: result.country,
+              status: result.status,
+              niceClasses: result.niceClasses,
+              detailsUrl: result.detailsUrl
+            },
+            storedAt: new Date().toISOString()
+          });
+          stored.push({ ...result, imagePath: file, imageHash: hash });
+        } catch (error) {
+          failures++;
+          logger.debug(`Image unavailable for ${result.mark || result.imageUrl}: ${error instanceof Error ? error.message : error}`);
+          stored.push(result);
+        }
+      }
+    } finally {
+      await page.close();
+    }
+
+    await this.addEntries(added);
+    return { results: stored, failures };
+  }
+
+  /**
+   * Ranks the stored images by visual similarity to a hash, most similar first.
+   */
+  async findSimilar(hash: ImageHash, options: FindSimilarOptions = {}): Promise<SimilarImage[]> {
+    const { limit = 10, threshold = 0 } = options;
+    return (await this.list())
+      .map(image => ({ image, similarity: imageSimilarity(hash, image.hash) }))
+      .filter(match => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  private async writeImage(bytes: Buffer, contentType: string): Promise<string> {
+    const file = path.join(this.dir, 'files', `${createHash('sha256').update(bytes).digest('hex')}.${EXTENSIONS[contentType]}`);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, bytes);
+    return file;
+  }
+
+  /**
+   * Merges entries into the index, re-read just before writing so entries
+   * stored meanwhile by other searches in this process are kept.
+   */
+  private addEntries(added: StoredImage[]): Promise<void> {
+    if (added.length === 0) return Promise.resolve();
+
+    const key = path.resolve(this.dir);
+    const write = (indexWrites.get(key) ?? Promise.resolve()).then(async () => {
+      const entries = new Map((await this.list()).map(entry => [entry.imageUrl, entry]));
+      added.forEach(entry => entries.set(entry.imageUrl, entry));
+      await this.save(Array.from(entries.values()));
+    });
+    // A failed write is reported to its own search and does not block later ones
+    indexWrites.set(key, write.catch(() => undefined));
+    return write;
+  }
+
+  private async save(entries: StoredImage[]): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.indexPath(), JSON.stringify(entries, null, 2), 'utf-8');
+  }
+
+  private indexPath(): string {
+    return path.join(this.dir, 'index.json');
+  }
+}
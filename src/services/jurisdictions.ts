@@ -0,0 +1,317 @@
+import { TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+
+export type JurisdictionKind = 'national' | 'regional' | 'international';
+
+export interface Jurisdiction {
+  /** ISO 3166-1 alpha-2 code, or the WIPO ST.3 code of a regional or international system */
+  code: string;
+  name: string;
+  kind: JurisdictionKind;
+  alpha3?: string;
+  /** The trademark office that examines filings for this jurisdiction */
+  office?: string;
+  /** Other names and acronyms the register or users write for it */
+  aliases?: string[];
+}
+
+// [alpha-2, alpha-3, name] for every ISO 3166-1 entry
+const COUNTRIES: Array<[string, string, string]> = [
+  ['AD', 'AND', 'Andorra'], ['AE', 'ARE', 'United Arab Emirates'], ['AF', 'AFG', 'Afghanistan'],
+  ['AG', 'ATG', 'Antigua and Barbuda'], ['AI', 'AIA', 'Anguilla'], ['AL', 'ALB', 'Albania'],
+  ['AM', 'ARM', 'Armenia'], ['AO', 'AGO', 'Angola'], ['AQ', 'ATA', 'Antarctica'],
+  ['AR', 'ARG', 'Argentina'], ['AS', 'ASM', 'American Samoa'], ['AT', 'AUT', 'Austria'],
+  ['AU', 'AUS', 'Australia'], ['AW', 'ABW', 'Aruba'], ['AX', 'ALA', 'Åland Islands'],
+  ['AZ', 'AZE', 'Azerbaijan'], ['BA', 'BIH', 'Bosnia and Herzegovina'], ['BB', 'BRB', 'Barbados'],
+  ['BD', 'BGD', 'Bangladesh'], ['BE', 'BEL', 'Belgium'], ['BF', 'BFA', 'Burkina Faso'],
+  ['BG', 'BGR', 'Bulgaria'], ['BH', 'BHR', 'Bahrain'], ['BI', 'BDI', 'Burundi'],
+  ['BJ', 'BEN', 'Benin'], ['BL', 'BLM', 'Saint Barthélemy'], ['BM', 'BMU', 'Bermuda'],
+  ['BN', 'BRN', 'Brunei Darussalam'], ['BO', 'BOL', 'Bolivia'], ['BQ', 'BES', 'Bonaire, Sint Eustatius and Saba'],
+  ['BR', 'BRA', 'Brazil'], ['BS', 'BHS', 'Bahamas'], ['BT', 'BTN', 'Bhutan'],
+  ['BV', 'BVT', 'Bouvet Island'], ['BW', 'BWA', 'Botswana'], ['BY', 'BLR', 'Belarus'],
+  ['BZ', 'BLZ', 'Belize'], ['CA', 'CAN', 'Canada'], ['CC', 'CCK', 'Cocos (Keeling) Islands'],
+  ['CD', 'COD', 'Democratic Republic of the Congo'], ['CF', 'CAF', 'Central African Republic'], ['CG', 'COG', 'Congo'],
+  ['CH', 'CHE', 'Switzerland'], ['CI', 'CIV', 'Côte d\'Ivoire'], ['CK', 'COK', 'Cook Islands'],
+  ['CL', 'CHL', 'Chile'], ['CM', 'CMR', 'Cameroon'], ['CN', 'CHN', 'China'],
+  ['CO', 'COL', 'Colombia'], ['CR', 'CRI', 'Costa Rica'], ['CU', 'CUB', 'Cuba'],
+  ['CV', 'CPV', 'Cabo Verde'], ['CW', 'CUW', 'Curaçao'], ['CX', 'CXR', 'Christmas Island'],
+  ['CY', 'CYP', 'Cyprus'], ['CZ', 'CZE', 'Czechia'], ['DE', 'DEU', 'Germany'],
+  ['DJ', 'DJI', 'Djibouti'], ['DK', 'DNK', 'Denmark'], ['DM', 'DMA', 'Dominica'],
+  ['DO', 'DOM', 'Dominican Republic'], ['DZ', 'DZA', 'Algeria'], ['EC', 'ECU', 'Ecuador'],
+  ['EE', 'EST', 'Estonia'], ['EG', 'EGY', 'Egypt'], ['EH', 'ESH', 'Western Sahara'],
+  ['ER', 'ERI', 'Eritrea'], ['ES', 'ESP', 'Spain'], ['ET', 'ETH', 'Ethiopia'],
+  ['FI', 'FIN', 'Finland'], ['FJ', 'FJI', 'Fiji'], ['FK', 'FLK', 'Falkland Islands (Malvinas)'],
+  ['FM', 'FSM', 'Micronesia'], ['FO', 'FRO', 'Faroe Islands'], ['FR', 'FRA', 'France'],
+  ['GA', 'GAB', 'Gabon'], ['GB', 'GBR', 'United Kingdom'], ['GD', 'GRD', 'Grenada'],
+  ['GE', 'GEO', 'Georgia'], ['GF', 'GUF', 'French Guiana'], ['GG', 'GGY', 'Guernsey'],
+  ['GH', 'GHA', 'Ghana'], ['GI', 'GIB', 'Gibraltar'], ['GL', 'GRL', 'Greenland'],
+  ['GM', 'GMB', 'Gambia'], ['GN', 'GIN', 'Guinea'], ['GP', 'GLP', 'Guadeloupe'],
+  ['GQ', 'GNQ', 'Equatorial Guinea'], ['GR', 'GRC', 'Greece'], ['GS', 'SGS', 'South Georgia and the South Sandwich Islands'],
+  ['GT', 'GTM', 'Guatemala'], ['GU', 'GUM', 'Guam'], ['GW', 'GNB', 'Guinea-Bissau'],
+  ['GY', 'GUY', 'Guyana'], ['HK', 'HKG', 'Hong Kong'], ['HM', 'HMD', 'Heard Island and McDonald Islands'],
+  ['HN', 'HND', 'Honduras'], ['HR', 'HRV', 'Croatia'], ['HT', 'HTI', 'Haiti'],
+  ['HU', 'HUN', 'Hungary'], ['ID', 'IDN', 'Indonesia'], ['IE', 'IRL', 'Ireland'],
+  ['IL', 'ISR', 'Israel'], ['IM', 'IMN', 'Isle of Man'], ['IN', 'IND', 'India'],
+  ['IO', 'IOT', 'British Indian Ocean Territory'], ['IQ', 'IRQ', 'Iraq'], ['IR', 'IRN', 'Iran'],
+  ['IS', 'ISL', 'Iceland'], ['IT', 'ITA', 'Italy'], ['JE', 'JEY', 'Jersey'],
+  ['JM', 'JAM', 'Jamaica'], ['JO', 'JOR', 'Jordan'], ['JP', 'JPN', 'Japan'],
+  ['KE', 'KEN', 'Kenya'], ['KG', 'KGZ', 'Kyrgyzstan'], ['KH', 'KHM', 'Cambodia'],
+  ['KI', 'KIR', 'Kiribati'], ['KM', 'COM', 'Comoros'], ['KN', 'KNA', 'Saint Kitts and Nevis'],
+  ['KP', 'PRK', 'North Korea'], ['KR', 'KOR', 'South Korea'], ['KW', 'KWT', 'Kuwait'],
+  ['KY', 'CYM', 'Cayman Islands'], ['KZ', 'KAZ', 'Kazakhstan'], ['LA', 'LAO', 'Laos'],
+  ['LB', 'LBN', 'Lebanon'], ['LC', 'LCA', 'Saint Lucia'], ['LI', 'LIE', 'Liechtenstein'],
+  ['LK', 'LKA', 'Sri Lanka'], ['LR', 'LBR', 'Liberia'], ['LS', 'LSO', 'Lesotho'],
+  ['LT', 'LTU', 'Lithuania'], ['LU', 'LUX', 'Luxembourg'], ['LV', 'LVA', 'Latvia'],
+  ['LY', 'LBY', 'Libya'], ['MA', 'MAR', 'Morocco'], ['MC', 'MCO', 'Monaco'],
+  ['MD', 'MDA', 'Moldova'], ['ME', 'MNE', 'Montenegro'], ['MF', 'MAF', 'Saint Martin (French part)'],
+  ['MG', 'MDG', 'Madagascar'], ['MH', 'MHL', 'Marshall Islands'], ['MK', 'MKD', 'North Macedonia'],
+  ['ML', 'MLI', 'Mali'], ['MM', 'MMR', 'Myanmar'], ['MN', 'MNG', 'Mongolia'],
+  ['MO', 'MAC', 'Macao'], ['MP', 'MNP', 'Northern Mariana Islands'], ['MQ', 'MTQ', 'Martinique'],
+  ['MR', 'MRT', 'Mauritania'], ['MS', 'MSR', 'Montserrat'], ['MT', 'MLT', 'Malta'],
+  ['MU', 'MUS', 'Mauritius'], ['MV', 'MDV', 'Maldives'], ['MW', 'MWI', 'Malawi'],
+  ['MX', 'MEX', 'Mexico'], ['MY', 'MYS', 'Malaysia'], ['MZ', 'MOZ', 'Mozambique'],
+  ['NA', 'NAM', 'Namibia'], ['NC', 'NCL', 'New Caledonia'], ['NE', 'NER', 'Niger'],
+  ['NF', 'NFK', 'Norfolk Island'], ['NG', 'NGA', 'Nigeria'], ['NI', 'NIC', 'Nicaragua'],
+  ['NL', 'NLD', 'Netherlands'], ['NO', 'NOR', 'Norway'], ['NP', 'NPL', 'Nepal'],
+  ['NR', 'NRU', 'Nauru'], ['NU', 'NIU', 'Niue'], ['NZ', 'NZL', 'New Zealand'],
+  ['OM', 'OMN', 'Oman'], ['PA', 'PAN', 'Panama'], ['PE', 'PER', 'Peru'],
+  ['PF', 'PYF', 'French Polynesia'], ['PG', 'PNG', 'Papua New Guinea'], ['PH', 'PHL', 'Philippines'],
+  ['PK', 'PAK', 'Pakistan'], ['PL', 'POL', 'Poland'], ['PM', 'SPM', 'Saint Pierre and Miquelon'],
+  ['PN', 'PCN', 'Pitcairn'], ['PR', 'PRI', 'Puerto Rico'], ['PS', 'PSE', 'Palestine'],
+  ['PT', 'PRT', 'Portugal'], ['PW', 'PLW', 'Palau'], ['PY', 'PRY', 'Paraguay'],
+  ['QA', 'QAT', 'Qatar'], ['RE', 'REU', 'Réunion'], ['RO', 'ROU', 'Romania'],
+  ['RS', 'SRB', 'Serbia'], ['RU', 'RUS', 'Russia'], ['RW', 'RWA', 'Rwanda'],
+  ['SA', 'SAU', 'Saudi Arabia'], ['SB', 'SLB', 'Solomon Islands'], ['SC', 'SYC', 'Seychelles'],
+  ['SD', 'SDN', 'Sudan'], ['SE', 'SWE', 'Sweden'], ['SG', 'SGP', 'Singapore'],
+  ['SH', 'SHN', 'Saint Helena, Ascension and Tristan da Cunha'], ['SI', 'SVN', 'Slovenia'], ['SJ', 'SJM', 'Svalbard and Jan Mayen'],
+  ['SK', 'SVK', 'Slovakia'], ['SL', 'SLE', 'Sierra Leone'], ['SM', 'SMR', 'San Marino'],
+  ['SN', 'SEN', 'Senegal'], ['SO', 'SOM', 'Somalia'], ['SR', 'SUR', 'Suriname'],
+  ['SS', 'SSD', 'South Sudan'], ['ST', 'STP', 'Sao Tome and Principe'], ['SV', 'SLV', 'El Salvador'],
+  ['SX', 'SXM', 'Sint Maarten (Dutch part)'], ['SY', 'SYR', 'Syria'], ['SZ', 'SWZ', 'Eswatini'],
+  ['TC', 'TCA', 'Turks and Caicos Islands'], ['TD', 'TCD', 'Chad'], ['TF', 'ATF', 'French Southern Territories'],
+  ['TG', 'TGO', 'Togo'], ['TH', 'THA', 'Thailand'], ['TJ', 'TJK', 'Tajikistan'],
+  ['TK', 'TKL', 'Tokelau'], ['TL', 'TLS', 'Timor-Leste'], ['TM', 'TKM', 'Turkmenistan'],
+  ['TN', 'TUN', 'Tunisia'], ['TO', 'TON', 'Tonga'], ['TR', 'TUR', 'Türkiye'],
+  ['TT', 'TTO', 'Trinidad and Tobago'], ['TV', 'TUV', 'Tuvalu'], ['TW', 'TWN', 'Taiwan'],
+  ['TZ', 'TZA', 'Tanzania'], ['UA', 'UKR', 'Ukraine'], ['UG', 'UGA', 'Uganda'],
+  ['UM', 'UMI', 'United States Minor Outlying Islands'], ['US', 'USA', 'United States'], ['UY', 'URY', 'Uruguay'],
+  ['UZ', 'UZB', 'Uzbekistan'], ['VA', 'VAT', 'Holy See'], ['VC', 'VCT', 'Saint Vincent and the Grenadines'],
+  ['VE', 'VEN', 'Venezuela'], ['VG', 'VGB', 'British Virgin Islands'], ['VI', 'VIR', 'United States Virgin Islands'],
+  ['VN', 'VNM', 'Viet Nam'], ['VU', 'VUT', 'Vanuatu'], ['WF', 'WLF', 'Wallis and Futuna'],
+  ['WS', 'WSM', 'Samoa'], ['YE', 'YEM', 'Yemen'], ['YT', 'MYT', 'Mayotte'],
+  ['ZA', 'ZAF', 'South Africa'], ['ZM', 'ZMB', 'Zambia'], ['ZW', 'ZWE', 'Zimbabwe']
+];
+
+// National offices and the names WIPO and other registers use for their countries
+const NATIONAL_DETAILS: Record<string, Pick<Jurisdiction, 'office' | 'aliases'>> = {
+  AE: { office: 'UAE Ministry of Economy', aliases: ['UAE'] },
+  AR: { office: 'National Institute of Industrial Property (Argentina)' },
+  AT: { office: 'Austrian Patent Office' },
+  AU: { office: 'IP Australia' },
+  BO: { aliases: ['Bolivia (Plurinational State of)'] },
+  BR: { office: 'National Institute of Industrial Property (Brazil)' },
+  CA: { office: 'Canadian Intellectual Property Office', aliases: ['CIPO'] },
+  CD: { aliases: ['DR Congo', 'Congo (Democratic Republic)'] },
+  CH: { office: 'Swiss Federal Institute of Intellectual Property' },
+  CI: { aliases: ['Ivory Coast'] },
+  CN: { office: 'China National Intellectual Property Administration', aliases: ['CNIPA', 'People\'s Republic of China'] },
+  CZ: { office: 'Industrial Property Office of the Czech Republic', aliases: ['Czech Republic'] },
+  DE: { office: 'German Patent and Trade Mark Office', aliases: ['DPMA'] },
+  DK: { office: 'Danish Patent and Trademark Office', aliases: ['DKPTO'] },
+  EG: { office: 'Egyptian Trademarks and Industrial Designs Office' },
+  ES: { office: 'Spanish Patent and Trademark Office', aliases: ['OEPM'] },
+  FI: { office: 'Finnish Patent and Registration Office', aliases: ['PRH'] },
+  FM: { aliases: ['Micronesia (Federated States of)'] },
+  FR: { office: 'National Institute of Industrial Property (France)' },
+  GB: { office: 'UK Intellectual Property Office', aliases: ['UK', 'UKIPO', 'Great Britain', 'United Kingdom of Great Britain and Northern Ireland'] },
+  HK: { office: 'Hong Kong Intellectual Property Department', aliases: ['Hong Kong, China', 'Hong Kong SAR'] },
+  IE: { office: 'Intellectual Property Office of Ireland', aliases: ['IPOI'] },
+  IL: { office: 'Israel Patent Office', aliases: ['ILPO'] },
+  IN: { office: 'Office of the Controller General of Patents, Designs and Trade Marks', aliases: ['CGPDTM'] },
+  IR: { aliases: ['Iran (Islamic Republic of)'] },
+  IT: { office: 'Italian Patent and Trademark Office', aliases: ['UIBM'] },
+  JP: { office: 'Japan Patent Office', aliases: ['JPO'] },
+  KP: { aliases: ['Democratic People\'s Republic of Korea'] },
+  KR: { office: 'Korean Intellectual Property Office', aliases: ['KIPO', 'Republic of Korea', 'Korea'] },
+  LA: { aliases: ['Lao People\'s Democratic Republic'] },
+  MD: { aliases: ['Republic of Moldova'] },
+  MO: { aliases: ['Macau', 'Macao, China'] },
+  MX: { office: 'Mexican Institute of Industrial Property', aliases: ['IMPI'] },
+  NO: { office: 'Norwegian Industrial Property Office', aliases: ['NIPO'] },
+  NZ: { office: 'Intellectual Property Office of New Zealand', aliases: ['IPONZ'] },
+  PS: { aliases: ['State of Palestine'] },
+  PT: { office: 'National Institute of Industrial Property (Portugal)' },
+  QA: { office: 'Qatar Ministry of Commerce and Industry' },
+  RU: { office: 'Federal Service for Intellectual Property', aliases: ['Rospatent', 'Russian Federation'] },
+  SA: { office: 'Saudi Authority for Intellectual Property', aliases: ['SAIP'] },
+  SE: { office: 'Swedish Intellectual Property Office', aliases: ['PRV'] },
+  SG: { office: 'Intellectual Property Office of Singapore', aliases: ['IPOS'] },
+  SY: { aliases: ['Syrian Arab Republic'] },
+  SZ: { aliases: ['Swaziland'] },
+  TR: { office: 'Turkish Patent and Trademark Office', aliases: ['TÜRKPATENT', 'Turkey'] },
+  TW: { office: 'Taiwan Intellectual Property Office', aliases: ['TIPO', 'Chinese Taipei'] },
+  TZ: { aliases: ['United Republic of Tanzania'] },
+  US: { office: 'United States Patent and Trademark Office', aliases: ['USPTO', 'USA', 'United States of America', 'U.S.', 'U.S.A.'] },
+  VA: { aliases: ['Vatican City'] },
+  VE: { aliases: ['Venezuela (Bolivarian Republic of)'] },
+  VN: { office: 'Intellectual Property Office of Viet Nam', aliases: ['Vietnam'] },
+  ZA: { office: 'Companies and Intellectual Property Commission', aliases: ['CIPC'] }
+};
+
+// Regional registers and the Madrid System, with their WIPO ST.3 codes
+const SYSTEMS: Jurisdiction[] = [
+  {
+    code: 'EM',
+    name: 'European Union',
+    kind: 'regional',
+    office: 'European Union Intellectual Property Office',
+    aliases: ['EU', 'EUIPO', 'OHIM', 'EUTM', 'European Union Trade Mark', 'Office for Harmonization in the Internal Market']
+  },
+  {
+    code: 'OA',
+    name: 'OAPI',
+    kind: 'regional',
+    office: 'African Intellectual Property Organization',
+    aliases: ['Organisation Africaine de la Propriété Intellectuelle']
+  },
+  {
+    code: 'AP',
+    name: 'ARIPO',
+    kind: 'regional',
+    office: 'African Regional Intellectual Property Organization',
+    aliases: ['Banjul Protocol']
+  },
+  {
+    code: 'BX',
+    name: 'Benelux',
+    kind: 'regional',
+    office: 'Benelux Office for Intellectual Property',
+    aliases: ['BOIP']
+  },
+  {
+    code: 'WO',
+    name: 'WIPO',
+    kind: 'international',
+    office: 'World Intellectual Property Organization (Madrid System)',
+    aliases: ['IB', 'International Bureau', 'Madrid', 'Madrid System', 'International Register', 'International Registration', 'International Trademark']
+  }
+];
+
+export const JURISDICTIONS: Jurisdiction[] = [
+  ...COUNTRIES.map(([code, alpha3, name]): Jurisdiction => ({ code, alpha3, name, kind: 'national', ...NATIONAL_DETAILS[code] })),
+  ...SYSTEMS
+];
+
+/**
+ * Lowercases and strips accents, punctuation and spacing so "Côte d'Ivoire"
+ * and "COTE DIVOIRE" share a key.
+ */
+function toKey(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function namesOf(jurisdiction: Jurisdiction): string[] {
+  return [jurisdiction.name, ...(jurisdiction.office ? [jurisdiction.office] : []), ...(jurisdiction.aliases ?? [])];
+}
+
+const BY_KEY = new Map<string, Jurisdiction>();
+for (const jurisdiction of JURISDICTIONS) {
+  for (const key of [jurisdiction.code, jurisdiction.alpha3, ...namesOf(jurisdiction)]) {
+    if (key && !BY_KEY.has(toKey(key))) BY_KEY.set(toKey(key), jurisdiction);
+  }
+}
+
+/**
+ * Looks up a jurisdiction by code (alpha-2, alpha-3 or ST.3), name, office
+ * name or alias, ignoring case, accents and punctuation. Also accepts the
+ * "Name (CODE)" form registers use in facet lists.
+ */
+export function findJurisdiction(text: string | undefined): Jurisdiction | undefined {
+  if (!text || !text.trim()) return undefined;
+
+  const exact = BY_KEY.get(toKey(text));
+  if (exact) return exact;
+
+  // "United States of America (US)" or "Iran (Islamic Republic of)"
+  const parenthesized = text.match(/^(.*?)\s*\(([^)]*)\)\s*$/);
+  if (parenthesized) {
+    return BY_KEY.get(toKey(parenthesized[2])) ?? BY_KEY.get(toKey(parenthesized[1]));
+  }
+  return undefined;
+}
+
+// Card text runs fields together ("Country of filingUnited StatesStatus"), so a name stands
+// alone when no capital precedes it and no lower-case letter follows: "Peru" is not in "Perugia"
+function wholeName(name: string): RegExp {
+  return new RegExp(`(?<!\\p{Lu})${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?!\\p{Ll})`, 'u');
+}
+
+// Longest first, so "Republic of Korea" wins over "Korea"
+const TEXT_NAMES = JURISDICTIONS
+  .flatMap(jurisdiction => namesOf(jurisdiction).filter(name => name.length >= 4).map(name => ({ name, pattern: wholeName(name), jurisdiction })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+/**
+ * Finds a jurisdiction mentioned in free text, such as the concatenated card
+ * text of a result. Text after a "Country of filing" or "Designation" label is
+ * searched first, since owner names often contain place names. Matches names
+ * as written, or an upper-case acronym such as USA standing on its own; bare
+ * codes are too ambiguous here.
+ */
+export function findJurisdictionInText(text: string): Jurisdiction | undefined {
+  const label = text.match(/Country of filing|Designation|Office of origin/);
+  if (label) {
+    const found = findNameOrAcronym(text.slice(label.index! + label[0].length));
+    if (found) return found;
+  }
+  return findNameOrAcronym(text);
+}
+
+function findNameOrAcronym(text: string): Jurisdiction | undefined {
+  // The earliest mention wins; TEXT_NAMES order breaks ties towards the longer name
+  let named: { index: number; jurisdiction: Jurisdiction } | undefined;
+  for (const { pattern, jurisdiction } of TEXT_NAMES) {
+    const index = text.search(pattern);
+    if (index >= 0 && (!named || index < named.index)) named = { index, jurisdiction };
+  }
+  if (named) return named.jurisdiction;
+
+  for (const [token] of text.matchAll(/(?<![A-Z])[A-Z]{3,6}(?![A-Z])/g)) {
+    const match = BY_KEY.get(toKey(token));
+    if (match?.aliases?.includes(token)) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Canonical country fields for a result: the code plus display name when the
+ * value is recognised, otherwise the text as the register rendered it.
+ */
+export function normalizeCountry(value: string | undefined): { country: string; countryName?: string } {
+  const jurisdiction = findJurisdiction(value);
+  return jurisdiction
+    ? { country: jurisdiction.code, countryName: jurisdiction.name }
+    : { country: value?.trim() ?? '' };
+}
+
+export class UnknownJurisdictionError extends Error {
+  constructor(readonly value: string) {
+    super(`Unknown country or office "${value}"; use an ISO code such as US, a name, or EM, OA, AP, BX or WO`);
+    this.name = 'UnknownJurisdictionError';
+  }
+}
+
+/**
+ * Replaces the country filter of a search with its canonical code, rejecting
+ * values that match no jurisdiction.
+ */
+export function normalizeCountryFilter(params: TrademarkSearchParams): TrademarkSearchParams {
+  if (!params.country) return params;
+
+  const jurisdiction = findJurisdiction(params.country);
+  if (!jurisdiction) throw new UnknownJurisdictionError(params.country);
+  return { ...params, country: jurisdiction.code };
+}
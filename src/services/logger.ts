@@ -0,0 +1,143 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync } from 'fs';
+import chalk from 'chalk';
+import { config } from '../config/config.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  module: string;
+  message: string;
+  runId?: string;
+  sessionId?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+/** Identifiers attached to every record logged while a run is in progress */
+export interface LogContext {
+  runId?: string;
+  sessionId?: string;
+}
+
+/**
+ * Human-friendly output through console.log and console.error, so log lines
+ * follow redirectLogsToStderr when stdout carries results.
+ */
+export class ConsoleSink implements LogSink {
+  write(record: LogRecord): void {
+    const color = { debug: chalk.gray, info: (text: string) => text, warn: chalk.yellow, error: chalk.red }[record.level];
+    const data = record.data && Object.keys(record.data).length > 0
+      ? ' ' + chalk.gray(Object.entries(record.data).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join(' '))
+      : '';
+    const line = `${chalk.gray(`[${record.module}]`)} ${color(record.message)}${data}`;
+
+    if (record.level === 'warn' || record.level === 'error') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * One JSON object per line, to a stream (stderr by default) or appended to a file.
+ */
+export class JsonLinesSink implements LogSink {
+  constructor(private target: NodeJS.WritableStream | string = process.stderr) {}
+
+  write(record: LogRecord): void {
+    const line = JSON.stringify(record) + '\n';
+    if (typeof this.target === 'string') {
+      appendFileSync(this.target, line);
+    } else {
+      this.target.write(line);
+    }
+  }
+}
+
+export interface LoggingOptions {
+  /** Minimum level written, defaults to the configured log level */
+  level?: LogLevel;
+  sinks?: LogSink[];
+}
+
+const logging: LoggingOptions = { sinks: [new ConsoleSink()] };
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Replaces the level and sinks every logger writes to. Pass no sinks to silence logging.
+ */
+export function configureLogging(options: LoggingOptions): void {
+  if ('level' in options) logging.level = options.level;
+  if ('sinks' in options) logging.sinks = options.sinks;
+}
+
+export function silenceLogging(): void {
+  configureLogging({ sinks: [] });
+}
+
+/**
+ * Runs a function with run and session ids attached to everything it logs,
+ * including from asynchronous work it starts.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+/**
+ * Adds ids that only become known partway through a run, e.g. the browser session id.
+ */
+export function updateLogContext(context: LogContext): void {
+  const store = contextStorage.getStore();
+  if (store) Object.assign(store, context);
+}
+
+export class Logger {
+  constructor(readonly module: string) {}
+
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>): void {
+    this.log('info', message, data);
+  }
+
+  warn(message: string, data?: Record<string, unknown>): void {
+    this.log('warn', message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>): void {
+    this.log('error', message, data);
+  }
+
+  log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    const sinks = logging.sinks ?? [];
+    if (sinks.length === 0 || LEVEL_ORDER[level] < LEVEL_ORDER[logging.level ?? config.agent.logLevel]) return;
+
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      module: this.module,
+      message,
+      ...contextStorage.getStore(),
+      ...(data ? { data } : {})
+    };
+
+    for (const sink of sinks) {
+      sink.write(record);
+    }
+  }
+}
+
+export function getLogger(module: string): Logger {
+  return new Logger(module);
+}
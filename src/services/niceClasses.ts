@@ -0,0 +1,304 @@
+export interface NiceClass {
+  number: number;
+  /** Short name for display next to the number */
+  title: string;
+  /** The class heading of the Nice Classification */
+  heading: string;
+  /** What the class mainly covers, from the explanatory note, with typical goods or services */
+  note: string;
+}
+
+export const NICE_CLASS_COUNT = 45;
+
+/** Classes 1–34 cover goods, 35–45 services (Nice Classification, 12th edition) */
+export const NICE_CLASSES: NiceClass[] = [
+  {
+    number: 1,
+    title: 'Chemicals',
+    heading: 'Chemicals for use in industry, science and photography, as well as in agriculture, horticulture and forestry; unprocessed artificial resins, unprocessed plastics; fire extinguishing and fire prevention compositions; tempering and soldering preparations; substances for tanning animal skins and hides; adhesives for use in industry; putties and other paste fillers; compost, manures, fertilizers; biological preparations for use in industry and science.',
+    note: 'Mainly chemical products for industry, science and agriculture, including those that go into making products of other classes, such as fertilizers, industrial glue, soil conditioners, coolants and chemical reagents.'
+  },
+  {
+    number: 2,
+    title: 'Paints',
+    heading: 'Paints, varnishes, lacquers; preservatives against rust and against deterioration of wood; colorants, dyes; inks for printing, marking and engraving; raw natural resins; metals in foil and powder form for use in painting, decorating, printing and art.',
+    note: 'Mainly paints, colorants and preparations used for protection against corrosion, such as wall paint, wood stain, printer toner and ink cartridges filled, and food colorants.'
+  },
+  {
+    number: 3,
+    title: 'Cosmetics and cleaning preparations',
+    heading: 'Non-medicated cosmetics and toiletry preparations; non-medicated dentifrices; perfumery, essential oils; bleaching preparations and other substances for laundry use; cleaning, polishing, scouring and abrasive preparations.',
+    note: 'Mainly non-medicated toiletry and cleaning preparations, such as soap, shampoo, makeup, skin care creams, lipstick, nail polish, deodorants, perfume, toothpaste, laundry detergent and cosmetics for animals.'
+  },
+  {
+    number: 4,
+    title: 'Lubricants and fuels',
+    heading: 'Industrial oils and greases, wax; lubricants; dust absorbing, wetting and binding compositions; fuels and illuminants; candles and wicks for lighting.',
+    note: 'Mainly industrial oils and greases, fuels and illuminants, such as motor oil, gasoline, diesel, firewood, charcoal, electrical energy and scented candles.'
+  },
+  {
+    number: 5,
+    title: 'Pharmaceuticals',
+    heading: 'Pharmaceuticals, medical and veterinary preparations; sanitary preparations for medical purposes; dietetic food and substances adapted for medical or veterinary use, food for babies; dietary supplements for human beings and animals; plasters, materials for dressings; material for stopping teeth, dental wax; disinfectants; preparations for destroying vermin; fungicides, herbicides.',
+    note: 'Mainly pharmaceuticals and other preparations for medical or veterinary purposes, such as medicines, vitamins, nutritional supplements, baby formula, diapers, sanitary pads, medicated shampoo, pesticides and insect repellents.'
+  },
+  {
+    number: 6,
+    title: 'Common metals',
+    heading: 'Common metals and their alloys, ores; metal materials for building and construction; transportable buildings of metal; non-electric cables and wires of common metal; small items of metal hardware; metal containers for storage or transport; safes.',
+    note: 'Mainly unwrought and partly wrought common metals and simple products made of them, such as steel, aluminium foil, metal pipes, nails, screws, bolts, locks and keys of metal, metal doors and metal boxes.'
+  },
+  {
+    number: 7,
+    title: 'Machines',
+    heading: 'Machines, machine tools, power-operated tools; motors and engines, except for land vehicles; machine coupling and transmission components, except for land vehicles; agricultural implements, other than hand-operated hand tools; incubators for eggs; automatic vending machines.',
+    note: 'Mainly machines and machine tools, motors and engines, such as electric drills, washing machines, dishwashers, vacuum cleaners, 3D printers, industrial robots, generators, pumps and kitchen food processors.'
+  },
+  {
+    number: 8,
+    title: 'Hand tools',
+    heading: 'Hand tools and implements, hand-operated; cutlery; side arms, except firearms; razors.',
+    note: 'Mainly hand-operated tools for tasks such as drilling, shaping, cutting and piercing, such as hammers, screwdrivers, knives, forks, spoons, scissors, razors, electric shavers, hair clippers and manicure sets.'
+  },
+  {
+    number: 9,
+    title: 'Electrical and scientific apparatus',
+    heading: 'Scientific, research, navigation, surveying, photographic, cinematographic, audiovisual, optical, weighing, measuring, signalling, detecting, testing, inspecting, life-saving and teaching apparatus and instruments; apparatus and instruments for conducting, switching, transforming, accumulating, regulating or controlling the distribution or use of electricity; apparatus and instruments for recording, transmitting, reproducing or processing sound, images or data; recorded and downloadable media, computer software, blank digital or analogue recording and storage media; mechanisms for coin-operated apparatus; cash registers, calculating devices; computers and computer peripheral devices; diving suits, divers\' masks, ear plugs for divers, nose clips for divers and swimmers, gloves for divers, breathing apparatus for underwater swimming; fire-extinguishing apparatus.',
+    note: 'Mainly apparatus and instruments for scientific or research purposes, audiovisual and information technology equipment, and safety equipment, such as computers, smartphones, downloadable software and mobile apps, headphones, cameras, batteries, chargers, eyeglasses, sunglasses, protective helmets and downloadable music or e-books.'
+  },
+  {
+    number: 10,
+    title: 'Medical apparatus',
+    heading: 'Surgical, medical, dental and veterinary apparatus and instruments; artificial limbs, eyes and teeth; orthopaedic articles; suture materials; therapeutic and assistive devices adapted for persons with disabilities; massage apparatus; apparatus, devices and articles for nursing infants; sexual activity apparatus, devices and articles.',
+    note: 'Mainly surgical, medical, dental and veterinary apparatus, instruments and articles, such as hearing aids, syringes, medical thermometers, blood pressure monitors, orthopaedic shoes, feeding bottles, pacifiers and condoms.'
+  },
+  {
+    number: 11,
+    title: 'Environmental control apparatus',
+    heading: 'Apparatus and installations for lighting, heating, cooling, steam generating, cooking, drying, ventilating, water supply and sanitary purposes.',
+    note: 'Mainly environmental control apparatus and installations, such as lamps, light bulbs, air conditioners, heaters, refrigerators, ovens, cooktops, coffee machines, water filters, faucets, showers, toilets and hair dryers.'
+  },
+  {
+    number: 12,
+    title: 'Vehicles',
+    heading: 'Vehicles; apparatus for locomotion by land, air or water.',
+    note: 'Mainly vehicles and apparatus for transporting people or goods, such as cars, electric vehicles, motorcycles, bicycles, scooters, trucks, boats, aircraft, drones, tyres, engines for land vehicles, car seats and baby strollers.'
+  },
+  {
+    number: 13,
+    title: 'Firearms',
+    heading: 'Firearms; ammunition and projectiles; explosives; fireworks.',
+    note: 'Mainly firearms and pyrotechnic products, such as guns, rifles, bullets, explosives, flares and fireworks.'
+  },
+  {
+    number: 14,
+    title: 'Jewellery',
+    heading: 'Precious metals and their alloys; jewellery, precious and semi-precious stones; horological and chronometric instruments.',
+    note: 'Mainly precious metals, goods made of them, jewellery and horological instruments, such as rings, necklaces, bracelets, earrings, gold, silver, diamonds, watches, watch straps, clocks, key rings and cufflinks.'
+  },
+  {
+    number: 15,
+    title: 'Musical instruments',
+    heading: 'Musical instruments; music stands and stands for musical instruments; conductors\' batons.',
+    note: 'Mainly musical instruments, their parts and accessories, such as pianos, guitars, drums, violins, electronic keyboards, guitar strings and instrument cases.'
+  },
+  {
+    number: 16,
+    title: 'Paper goods and printed matter',
+    heading: 'Paper and cardboard; printed matter; bookbinding material; photographs; stationery and office requisites, except furniture; adhesives for stationery or household purposes; drawing materials and materials for artists; paintbrushes; instructional and teaching materials; plastic sheets, films and bags for wrapping and packaging; printers\' type, printing blocks.',
+    note: 'Mainly paper, goods made of paper and office requisites, such as printed books, magazines, newspapers, notebooks, pens, pencils, posters, greeting cards, stickers, paper towels, toilet paper, tissues, cardboard boxes and plastic packaging bags.'
+  },
+  {
+    number: 17,
+    title: 'Rubber and plastic materials',
+    heading: 'Unprocessed and semi-processed rubber, gutta-percha, gum, asbestos, mica and substitutes for all these materials; plastics and resins in extruded form for use in manufacture; packing, stopping and insulating materials; flexible pipes, tubes and hoses, not of metal.',
+    note: 'Mainly electrical, thermal and acoustic insulating materials and plastics for use in manufacture, such as rubber sheets, insulating tape, foam, sealants, garden hoses and plastic film not for wrapping.'
+  },
+  {
+    number: 18,
+    title: 'Leather goods',
+    heading: 'Leather and imitations of leather; animal skins and hides; luggage and carrying bags; umbrellas and parasols; walking sticks; whips, harness and saddlery; collars, leashes and clothing for animals.',
+    note: 'Mainly leather and its imitations, travel goods and saddlery, such as handbags, wallets, purses, backpacks, suitcases, briefcases, umbrellas, dog collars, leashes and clothing for pets.'
+  },
+  {
+    number: 19,
+    title: 'Non-metallic building materials',
+    heading: 'Materials, not of metal, for building and construction; rigid pipes, not of metal, for building; asphalt, pitch, tar and bitumen; transportable buildings, not of metal; monuments, not of metal.',
+    note: 'Mainly building materials not of metal, such as cement, concrete, bricks, timber, wooden flooring, ceramic tiles, building glass, stone and non-metal doors and windows.'
+  },
+  {
+    number: 20,
+    title: 'Furniture',
+    heading: 'Furniture, mirrors, picture frames; containers, not of metal, for storage or transport; unworked or semi-worked bone, horn, whalebone or mother-of-pearl; shells; meerschaum; yellow amber.',
+    note: 'Mainly furniture and its parts, and certain goods of wood, plastic or similar materials, such as chairs, tables, sofas, beds, mattresses, pillows, cushions, shelves, cabinets, office furniture, mirrors and plastic storage boxes.'
+  },
+  {
+    number: 21,
+    title: 'Household utensils',
+    heading: 'Household or kitchen utensils and containers; cookware and tableware, except forks, knives and spoons; combs and sponges; brushes, except paintbrushes; brush-making materials; articles for cleaning purposes; unworked or semi-worked glass, except building glass; glassware, porcelain and earthenware.',
+    note: 'Mainly small, hand-operated utensils and apparatus for household and kitchen use, toilet utensils and cosmetic utensils, such as pots, pans, plates, cups, mugs, drinking bottles, glassware, toothbrushes, hair brushes, combs, mops and cleaning cloths.'
+  },
+  {
+    number: 22,
+    title: 'Ropes, nets and fibres',
+    heading: 'Ropes and string; nets; tents and tarpaulins; awnings of textile or synthetic materials; sails; sacks for the transport and storage of materials in bulk; padding, cushioning and stuffing materials, except of paper, cardboard, rubber or plastics; raw fibrous textile materials and substitutes therefor.',
+    note: 'Mainly canvas and other materials for making sails, rope, padding, cushioning and stuffing materials and raw fibrous textile materials, such as ropes, cords, fishing nets, hammocks, tents, tarpaulins, raw cotton and wool.'
+  },
+  {
+    number: 23,
+    title: 'Yarns and threads',
+    heading: 'Yarns and threads for textile use.',
+    note: 'Mainly yarns and threads for textile use, such as sewing thread, embroidery thread, knitting wool and spun silk.'
+  },
+  {
+    number: 24,
+    title: 'Textiles',
+    heading: 'Textiles and substitutes for textiles; household linen; curtains of textile or plastic.',
+    note: 'Mainly textiles and textile covers for household use, such as fabrics, bed sheets, bed linen, duvet covers, blankets, towels, tablecloths, curtains and sleeping bags.'
+  },
+  {
+    number: 25,
+    title: 'Clothing',
+    heading: 'Clothing, footwear, headwear.',
+    note: 'Mainly clothing, footwear and headwear for human beings, such as clothes, shirts, t-shirts, trousers, jeans, dresses, jackets, coats, underwear, socks, sportswear, shoes, sneakers, boots, sandals, hats and caps.'
+  },
+  {
+    number: 26,
+    title: 'Lace, embroidery and haberdashery',
+    heading: 'Lace, braid and embroidery, and haberdashery ribbons and bows; buttons, hooks and eyes, pins and needles; artificial flowers; hair decorations; false hair.',
+    note: 'Mainly dressmakers\' articles, natural or synthetic hair for wear and hair adornments, such as buttons, zippers, ribbons, sewing needles, embroidered patches, badges, hair clips, hair bands, wigs and artificial flowers.'
+  },
+  {
+    number: 27,
+    title: 'Floor coverings',
+    heading: 'Carpets, rugs, mats and matting, linoleum and other materials for covering existing floors; wall hangings, not of textile.',
+    note: 'Mainly products intended to be added as furnishings to previously constructed floors and walls, such as carpets, rugs, bath mats, door mats, yoga mats, gym mats, artificial turf and wallpaper.'
+  },
+  {
+    number: 28,
+    title: 'Toys and sporting goods',
+    heading: 'Games, toys and playthings; video game apparatus; gymnastic and sporting articles; decorations for Christmas trees.',
+    note: 'Mainly toys, apparatus for playing games, sports equipment, amusement and novelty items, such as dolls, board games, playing cards, puzzles, video game consoles and controllers, balls, rackets, golf clubs, skis, skateboards, fitness equipment and fishing tackle.'
+  },
+  {
+    number: 29,
+    title: 'Meat, dairy and preserved foods',
+    heading: 'Meat, fish, poultry and game; meat extracts; preserved, frozen, dried and cooked fruits and vegetables; jellies, jams, compotes; eggs; milk, cheese, butter, yogurt and other milk products; oils and fats for food.',
+    note: 'Mainly foodstuffs of animal origin, vegetables and other edible horticultural products prepared or preserved for consumption, such as sausages, ham, canned fish, soups, potato chips, processed nuts, plant-based milk substitutes, tofu, hummus and cooking oil.'
+  },
+  {
+    number: 30,
+    title: 'Staple foods',
+    heading: 'Coffee, tea, cocoa and substitutes therefor; rice, pasta and noodles; tapioca and sago; flour and preparations made from cereals; bread, pastries and confectionery; chocolate; ice cream, sorbets and other edible ices; sugar, honey, treacle; yeast, baking-powder; salt, seasonings, spices, preserved herbs; vinegar, sauces and other condiments; ice (frozen water).',
+    note: 'Mainly foodstuffs of plant origin prepared or preserved for consumption, and flavour enhancers, such as coffee, tea, bread, cakes, biscuits, cookies, candy, chocolate, breakfast cereals, pizza, sandwiches, ketchup, mayonnaise, spices and ice cream.'
+  },
+  {
+    number: 31,
+    title: 'Agricultural produce and animal feed',
+    heading: 'Raw and unprocessed agricultural, aquacultural, horticultural and forestry products; raw and unprocessed grains and seeds; fresh fruits and vegetables, fresh herbs; natural plants and flowers; bulbs, seedlings and seeds for planting; live animals; foodstuffs and beverages for animals; malt.',
+    note: 'Mainly land and sea products not subjected to any form of preparation for consumption, live animals and plants, and foodstuffs for animals, such as fresh fruit, fresh vegetables, live plants, flowers, seeds, pet food, dog food, cat food, animal feed and litter for pets.'
+  },
+  {
+    number: 32,
+    title: 'Beer and non-alcoholic beverages',
+    heading: 'Beers; non-alcoholic beverages; mineral and aerated waters; fruit beverages and fruit juices; syrups and other non-alcoholic preparations for making beverages.',
+    note: 'Mainly non-alcoholic beverages and beer, such as soft drinks, sodas, bottled water, sparkling water, energy drinks, sports drinks, fruit juices, smoothies, non-alcoholic wine, beer and craft beer.'
+  },
+  {
+    number: 33,
+    title: 'Alcoholic beverages',
+    heading: 'Alcoholic beverages, except beers; alcoholic preparations for making beverages.',
+    note: 'Mainly alcoholic beverages other than beer, such as wine, sparkling wine, spirits, whisky, vodka, gin, rum, tequila, liqueurs, cider and hard seltzer.'
+  },
+  {
+    number: 34,
+    title: 'Tobacco and smokers\' articles',
+    heading: 'Tobacco and tobacco substitutes; cigarettes and cigars; electronic cigarettes and oral vaporizers for smokers; smokers\' articles; matches.',
+    note: 'Mainly tobacco and articles used for smoking, such as cigarettes, cigars, e-cigarettes, vapes, e-liquids, hookahs, lighters, ashtrays and rolling papers.'
+  },
+  {
+    number: 35,
+    title: 'Advertising and business',
+    heading: 'Advertising; business management, organization and administration; office functions.',
+    note: 'Mainly services rendered by persons or organizations principally with the object of help in the working or management of a commercial undertaking, such as marketing, advertising agency services, retail store and online store services, e-commerce marketplace services, accounting, bookkeeping, human resources, recruitment, business consulting and trade show organization.'
+  },
+  {
+    number: 36,
+    title: 'Finance, insurance and real estate',
+    heading: 'Financial, monetary and banking services; insurance services; real estate affairs.',
+    note: 'Mainly services relating to banking and other financial transactions, insurance and real estate, such as banking, payment processing, credit cards, loans, investment management, cryptocurrency exchange, fundraising, insurance underwriting, real estate agency and property rental.'
+  },
+  {
+    number: 37,
+    title: 'Construction and repair',
+    heading: 'Construction services; installation and repair services; mining extraction, oil and gas drilling.',
+    note: 'Mainly services in the field of construction, restoration of objects to their original condition and installation, such as building construction, plumbing, electrical installation, car repair and maintenance, computer hardware repair, cleaning of buildings, laundry and pest control.'
+  },
+  {
+    number: 38,
+    title: 'Telecommunications',
+    heading: 'Telecommunications services.',
+    note: 'Mainly services that allow communication between people and transmission of data, such as telephone and mobile services, internet access, email, messaging, broadcasting, video streaming transmission, podcast transmission and online chat rooms and forums.'
+  },
+  {
+    number: 39,
+    title: 'Transport and travel',
+    heading: 'Transport; packaging and storage of goods; travel arrangement.',
+    note: 'Mainly services for transporting people, animals or goods and storage, such as delivery of goods, courier, shipping, freight, logistics, warehousing, taxi and ride sharing, car rental, airline services, parking and travel booking.'
+  },
+  {
+    number: 40,
+    title: 'Treatment of materials',
+    heading: 'Treatment of materials; recycling of waste and trash; air purification and treatment of water; printing services; food and drink preservation.',
+    note: 'Mainly services that alter objects or substances, such as custom manufacturing for others, 3D printing for others, printing, tailoring, dyeing, engraving, brewing beer for others, water treatment, recycling and waste processing.'
+  },
+  {
+    number: 41,
+    title: 'Education and entertainment',
+    heading: 'Education; providing of training; entertainment; sporting and cultural activities.',
+    note: 'Mainly services aimed at developing the mental faculties or entertaining people, such as schools, online courses, tutoring, workshops, publishing of books online, film and music production, concerts, events, gyms and fitness classes, providing online non-downloadable games, videos and music, and sports competitions.'
+  },
+  {
+    number: 42,
+    title: 'Science and technology services',
+    heading: 'Scientific and technological services and research and design relating thereto; industrial analysis, industrial research and industrial design services; quality control and authentication services; design and development of computer hardware and software.',
+    note: 'Mainly services in the theoretical and practical aspects of complex fields, such as software development, software as a service (SaaS), platform as a service, cloud computing, website hosting, IT consulting, data security, scientific research, engineering, laboratory testing, graphic design and architecture.'
+  },
+  {
+    number: 43,
+    title: 'Food, drink and accommodation services',
+    heading: 'Services for providing food and drink; temporary accommodation.',
+    note: 'Mainly services for preparing food and drink for consumption and providing temporary accommodation, such as restaurants, cafés, coffee shops, bars, catering, food delivery preparation, take-out restaurants, hotels, hostels, holiday rentals and boarding for pets.'
+  },
+  {
+    number: 44,
+    title: 'Medical, beauty and agricultural services',
+    heading: 'Medical services; veterinary services; hygienic and beauty care for human beings or animals; agriculture, aquaculture, horticulture and forestry services.',
+    note: 'Mainly medical care, hygienic and beauty care given to people or animals, and agriculture services, such as hospitals, clinics, dentistry, telemedicine, pharmacy advice, veterinary care, hairdressing, beauty salons, spas, massage, tattooing, pet grooming, gardening and landscape gardening.'
+  },
+  {
+    number: 45,
+    title: 'Legal, security and personal services',
+    heading: 'Legal services; security services for the physical protection of tangible property and individuals; personal and social services rendered by others to meet the needs of individuals.',
+    note: 'Mainly legal services, security services and services for individuals, such as lawyers, intellectual property and licensing services, legal research, security guards, background checks, dating services, online social networking, funeral services, babysitting and clothing rental.'
+  }
+];
+
+/**
+ * Returns the catalog entry of a class, or undefined for numbers outside 1–45.
+ */
+export function getNiceClass(number: number): NiceClass | undefined {
+  return NICE_CLASSES[number - 1];
+}
+
+/**
+ * Formats classes with their titles, e.g. "25 (Clothing), 35 (Advertising and business)".
+ */
+export function describeNiceClasses(numbers: number[]): string {
+  return numbers
+    .map(number => {
+      const niceClass = getNiceClass(number);
+      return niceClass ? `${number} (${niceClass.title})` : String(number);
+    })
+    .join(', ');
+}
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import type { LLMFormatter } from '../formatters/llmFormatter.js';
+import { NICE_CLASSES, NICE_CLASS_COUNT, getNiceClass } from './niceClasses.js';
+
+export interface NiceSuggestion {
+  number: number;
+  title: string;
+  /** Relevance from 0 to 1 */
+  score: number;
+  /** Description terms found in the class text, for keyword suggestions */
+  matchedTerms?: string[];
+  /** The model's explanation, for model suggestions */
+  reason?: string;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or',
+  'other', 'our', 'such', 'that', 'the', 'their', 'them', 'these', 'this', 'to', 'we', 'with', 'mainly', 'including',
+  'etc', 'not', 'except', 'therefor', 'thereto', 'relating', 'use', 'used', 'purposes', 'made', 'products', 'goods'
+]);
+
+/**
+ * Reduces common English inflections so "printing", "printed" and "prints" share a term.
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+type TermVector = Map<string, number>;
+
+function termCounts(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return counts;
+}
+
+// Class texts are fixed, so the index is built once: titles count twice as they name the core of the class
+const CLASS_TERMS = NICE_CLASSES.map(niceClass =>
+  termCounts([...tokenize(niceClass.title), ...tokenize(niceClass.title), ...tokenize(niceClass.heading), ...tokenize(niceClass.note)])
+);
+
+const IDF = new Map<string, number>();
+for (const terms of CLASS_TERMS) {
+  terms.forEach((_count, term) => IDF.set(term, (IDF.get(term) ?? 0) + 1));
+}
+IDF.forEach((documents, term) => IDF.set(term, Math.log((NICE_CLASSES.length + 1) / (documents + 1)) + 1));
+
+function weigh(counts: Map<string, number>): TermVector {
+  const vector: TermVector = new Map();
+  counts.forEach((count, term) => {
+    const idf = IDF.get(term);
+    if (idf) vector.set(term, (1 + Math.log(count)) * idf);
+  });
+  return vector;
+}
+
+function norm(vector: TermVector): number {
+  return Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+}
+
+const CLASS_VECTORS = CLASS_TERMS.map(weigh);
+const CLASS_NORMS = CLASS_VECTORS.map(norm);
+
+/**
+ * Suggests classes for a description of goods or services by TF-IDF cosine
+ * similarity against the bundled class headings and notes. Works offline;
+ * returns an empty list when no description term occurs in any class.
+ */
+export function suggestNiceClasses(description: string, limit: number = 5): NiceSuggestion[] {
+  const query = weigh(termCounts(tokenize(description)));
+  const queryNorm = norm(query);
+  if (queryNorm === 0) return [];
+
+  return NICE_CLASSES
+    .map((niceClass, index): NiceSuggestion => {
+      let dot = 0;
+      const matchedTerms: string[] = [];
+      query.forEach((weight, term) => {
+        const classWeight = CLASS_VECTORS[index].get(term);
+        if (classWeight) {
+          dot += weight * classWeight;
+          matchedTerms.push(term);
+        }
+      });
+      const score = dot / (queryNorm * CLASS_NORMS[index]);
+      return { number: niceClass.number, title: niceClass.title, score: Math.round(score * 1000) / 1000, matchedTerms };
+    })
+    .filter(suggestion => suggestion.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+const ModelSuggestionsSchema = z.object({
+  suggestions: z.array(z.object({
+    number: z.number().int().describe('Nice class number, 1 to 45'),
+    confidence: z.number().describe('Confidence from 0 to 1'),
+    reason: z.string().describe('One sentence on why the goods or services fall in this class')
+  }))
+});
+
+/**
+ * Asks the model of a formatter to classify a description against the class
+ * headings. Classes outside 1–45 are dropped; rejects when the reply does not
+ * match the expected shape.
+ */
+export async function suggestNiceClassesWithModel(
+  description: string,
+  generator: Pick<LLMFormatter, 'generateStructured'>,
+  limit: number = 5
+): Promise<NiceSuggestion[]> {
+  const catalog = NICE_CLASSES.map(niceClass => `${niceClass.number}. ${niceClass.title}: ${niceClass.heading}`).join('\n');
+  const prompt = `Classify the following goods or services under the Nice Classification. Return up to ${limit} classes
+that the description falls in, most relevant first, each with a confidence and a one-sentence reason.
+
+Description: ${description}
+
+Classes:
+${catalog}`;
+
+  const reply = ModelSuggestionsSchema.parse(await generator.generateStructured(prompt, ModelSuggestionsSchema));
+  const seen = new Set<number>();
+
+  return reply.suggestions
+    .filter(suggestion => suggestion.number >= 1 && suggestion.number <= NICE_CLASS_COUNT && !seen.has(suggestion.number) && seen.add(suggestion.number))
+    .map(suggestion => ({
+      number: suggestion.number,
+      title: getNiceClass(suggestion.number)!.title,
+      score: Math.min(1, Math.max(0, suggestion.confidence)),
+      reason: suggestion.reason
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { trademarkResult } from '../testing/trademarkResults.js';
+import { computeExpiryDate, filterExpiringWithin, normalizeResultDates, termRuleFor } from './renewals.js';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+// Germany counts ten-year terms from filing
+const GERMAN_FILING = { country: 'DE', filingDate: '2010-03-15' };
+
+describe('termRuleFor', () => {
+  it('defaults to ten years from filing', () => {
+    expect(termRuleFor('DE')).toEqual({ years: 10, from: 'filing' });
+    expect(termRuleFor('US').from).toBe('registration');
+  });
+});
+
+describe('computeExpiryDate', () => {
+  it('rolls a live mark forward to its next renewal', () => {
+    expect(computeExpiryDate(trademarkResult(GERMAN_FILING), NOW)).toBe('2030-03-15');
+  });
+
+  it('keeps the end of the first term for a dead mark', () => {
+    expect(computeExpiryDate(trademarkResult({ ...GERMAN_FILING, status: 'Expired' }), NOW)).toBe('2020-03-15');
+  });
+
+  it('counts from the registration date where the register requires it', () => {
+    const us = trademarkResult({ country: 'US', filingDate: '2014-01-10', registrationDate: '2016-08-02' });
+    expect(computeExpiryDate(us, NOW)).toBe('2026-08-02');
+    expect(computeExpiryDate({ ...us, registrationDate: undefined }, NOW)).toBeUndefined();
+  });
+
+  it('applies the older Canadian term to marks registered before the change', () => {
+    expect(computeExpiryDate(trademarkResult({ country: 'CA', registrationDate: '2012-05-01', status: 'Expired' }), NOW)).toBe('2027-05-01');
+    expect(computeExpiryDate(trademarkResult({ country: 'CA', registrationDate: '2020-05-01', status: 'Expired' }), NOW)).toBe('2030-05-01');
+  });
+
+  it('returns undefined without an ISO start date', () => {
+    expect(computeExpiryDate(trademarkResult({ ...GERMAN_FILING, filingDate: '' }), NOW)).toBeUndefined();
+    expect(computeExpiryDate(trademarkResult({ ...GERMAN_FILING, filingDate: '15.03.2010' }), NOW)).toBeUndefined();
+  });
+});
+
+describe('filterExpiringWithin', () => {
+  it('keeps marks expiring from today up to the given number of days', () => {
+    const results = [
+      trademarkResult({ ...GERMAN_FILING, applicationNumber: 'today', expiryDate: '2025-06-01' }),
+      trademarkResult({ ...GERMAN_FILING, applicationNumber: 'soon', expiryDate: '2025-07-01' }),
+      trademarkResult({ ...GERMAN_FILING, applicationNumber: 'later', expiryDate: '2026-01-01' }),
+      trademarkResult({ ...GERMAN_FILING, applicationNumber: 'past', expiryDate: '2025-05-31' }),
+      trademarkResult({ ...GERMAN_FILING, applicationNumber: 'unknown' })
+    ];
+
+    expect(filterExpiringWithin(results, 30, NOW).map(r => r.applicationNumber)).toEqual(['today', 'soon']);
+  });
+});
+
+describe('normalizeResultDates', () => {
+  it('rewrites dates as ISO, reading numeric dates by country', () => {
+    const normalized = normalizeResultDates(trademarkResult({
+      country: 'US',
+      filingDate: '03/04/2014',
+      registrationDate: 'Aug 2, 2016',
+      expiryDate: '08/02/2026'
+    }), NOW);
+
+    expect(normalized).toMatchObject({ filingDate: '2014-03-04', registrationDate: '2016-08-02', expiryDate: '2026-08-02' });
+    expect(normalized.expiryDateComputed).toBeUndefined();
+  });
+
+  it('computes a missing expiry date and flags it', () => {
+    const normalized = normalizeResultDates(trademarkResult({ ...GERMAN_FILING, filingDate: '15.03.2010' }), NOW);
+    expect(normalized).toMatchObject({ filingDate: '2010-03-15', expiryDate: '2030-03-15', expiryDateComputed: true });
+  });
+
+  it('keeps unrecognised text and never swaps filing and registration dates', () => {
+    const normalized = normalizeResultDates(trademarkResult({ ...GERMAN_FILING, filingDate: 'unknown', registrationDate: undefined }), NOW);
+    expect(normalized.filingDate).toBe('unknown');
+    expect(normalized.registrationDate).toBeUndefined();
+    expect(normalized.expiryDate).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { TrademarkResult } from '../schemas/trademarkSchema.js';
+import { addYears, daysBetween, parseDate, today } from './dates.js';
+import { statusGroupOf } from './statuses.js';
+
+interface TermRule {
+  years: number;
+  /** The date the first term runs from */
+  from: 'filing' | 'registration';
+  /** A different term for marks registered before a date, e.g. Canada's 15 years before 2019-06-17 */
+  before?: { date: string; years: number };
+}
+
+// Most registers run terms of ten years from the filing date
+const DEFAULT_TERM: TermRule = { years: 10, from: 'filing' };
+
+/** Jurisdictions whose term differs from ten years from filing */
+const TERM_RULES: Record<string, TermRule> = {
+  US: { years: 10, from: 'registration' },
+  CA: { years: 10, from: 'registration', before: { date: '2019-06-17', years: 15 } },
+  WO: { years: 10, from: 'registration' },
+  JP: { years: 10, from: 'registration' },
+  CN: { years: 10, from: 'registration' },
+  KR: { years: 10, from: 'registration' },
+  TW: { years: 10, from: 'registration' },
+  BR: { years: 10, from: 'registration' },
+  MX: { years: 10, from: 'registration' },
+  AR: { years: 10, from: 'registration' },
+  CL: { years: 10, from: 'registration' },
+  CO: { years: 10, from: 'registration' },
+  PE: { years: 10, from: 'registration' },
+  PH: { years: 10, from: 'registration' }
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function termRuleFor(country: string): TermRule {
+  return TERM_RULES[country] ?? DEFAULT_TERM;
+}
+
+/**
+ * Computes the end of a mark's current term from the jurisdiction's term
+ * rule when the register gives no expiry date. Live marks are assumed to
+ * have been renewed on time, so the date rolls forward to the next renewal
+ * still ahead; dead marks keep the end of their last known term. Returns
+ * undefined when the date the term runs from is missing.
+ */
+export function computeExpiryDate(
+  result: Pick<TrademarkResult, 'country' | 'filingDate' | 'registrationDate' | 'status'>,
+  now: Date = new Date()
+): string | undefined {
+  const rule = termRuleFor(result.country);
+  const start = rule.from === 'registration' ? result.registrationDate : result.filingDate;
+  if (!start || !ISO_DATE.test(start)) return undefined;
+
+  const firstYears = rule.before && start < rule.before.date ? rule.before.years : rule.years;
+  let expiry = addYears(start, firstYears);
+  if (statusGroupOf(result.status) === 'dead') return expiry;
+
+  const current = today(now);
+  while (expiry < current) {
+    expiry = addYears(expiry, rule.years);
+  }
+  return expiry;
+}
+
+/**
+ * Keeps the results whose expiry date falls from today up to `days` days ahead.
+ */
+export function filterExpiringWithin(results: TrademarkResult[], days: number, now: Date = new Date()): TrademarkResult[] {
+  const current = today(now);
+  return results.filter(result => {
+    if (!result.expiryDate) return false;
+    const remaining = daysBetween(current, result.expiryDate);
+    return remaining >= 0 && remaining <= days;
+  });
+}
+
+type DatedResult = Pick<TrademarkResult, 'country' | 'filingDate' | 'registrationDate' | 'expiryDate' | 'expiryDateComputed' | 'status'>;
+
+/**
+ * Rewrites a result's dates as ISO-8601, reading ambiguous numeric dates by
+ * its country, and fills a missing expiry date from the term rules. Text that
+ * holds no recognisable date is kept as it was. Filing and registration dates
+ * are never substituted for each other.
+ */
+export function normalizeResultDates<T extends DatedResult>(result: T, now: Date = new Date()): T {
+  const options = { country: result.country };
+  const normalize = (value: string | undefined) => (value ? parseDate(value, options) ?? value.trim() : undefined);
+
+  const normalized: T = {
+    ...result,
+    filingDate: normalize(result.filingDate) ?? '',
+    registrationDate: normalize(result.registrationDate),
+    expiryDate: normalize(result.expiryDate)
+  };
+
+  if (!normalized.expiryDate) {
+    const computed = computeExpiryDate(normalized, now);
+    if (computed) {
+      normalized.expiryDate = computed;
+      normalized.expiryDateComputed = true;
+    }
+  }
+  return normalized;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { trademarkResult } from '../testing/trademarkResults.js';
+import { diffResults, isTruncated, resultKey } from './resultDiff.js';
+
+const [ONE, TWO, THREE] = ['1', '2', '3'].map(applicationNumber =>
+  trademarkResult({ applicationNumber, mark: `MARK ${applicationNumber}`, status: 'Pending' })
+);
+
+describe('resultKey', () => {
+  it('ignores spacing and case in application numbers', () => {
+    expect(resultKey(trademarkResult({ applicationNumber: 'us 123 456' }))).toBe(resultKey(trademarkResult({ applicationNumber: 'US123456' })));
+  });
+
+  it('falls back to mark, owner and country', () => {
+    expect(resultKey(trademarkResult({ applicationNumber: '', mark: 'Nike' }))).toBe('nike|acme corp|us');
+  });
+});
+
+describe('diffResults', () => {
+  it('reports no changes for the same results', () => {
+    const diff = diffResults([ONE, TWO], [TWO, ONE]);
+    expect(diff.hasChanges).toBe(false);
+  });
+
+  it('reports added and removed filings', () => {
+    const diff = diffResults([ONE, TWO], [TWO, THREE]);
+    expect(diff.added.map(r => r.applicationNumber)).toEqual(['3']);
+    expect(diff.removed.map(r => r.applicationNumber)).toEqual(['1']);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('reports status and owner changes', () => {
+    const diff = diffResults(
+      [ONE, TWO],
+      [{ ...ONE, status: 'Registered' }, { ...TWO, owner: 'Other Ltd' }]
+    );
+    expect(diff.statusChanges).toEqual([{ key: '1', mark: 'MARK 1', from: 'Pending', to: 'Registered' }]);
+    expect(diff.ownerChanges).toEqual([{ key: '2', mark: 'MARK 2', from: 'Acme Corp', to: 'Other Ltd' }]);
+  });
+
+  it('treats owner case and spacing changes as the same owner', () => {
+    expect(diffResults([ONE], [{ ...ONE, owner: ' ACME CORP ' }]).ownerChanges).toEqual([]);
+  });
+
+  it('does not report removals from truncated runs', () => {
+    const diff = diffResults([ONE, TWO], [TWO], { truncated: true });
+    expect(diff.removed).toEqual([]);
+    expect(diff.truncated).toBe(true);
+    expect(diff.hasChanges).toBe(false);
+  });
+});
+
+describe('isTruncated', () => {
+  it('detects runs that stopped at the limit', () => {
+    expect(isTruncated({ results: [1, 2], totalResults: 120 })).toBe(true);
+    expect(isTruncated({ results: [1, 2], totalResults: 2 })).toBe(false);
+    expect(isTruncated({ results: [1, 2] })).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { TrademarkResult } from '../schemas/trademarkSchema.js';
+
+export interface FieldChange {
+  key: string;
+  mark: string;
+  from: string;
+  to: string;
+}
+
+export interface ResultDiff {
+  added: TrademarkResult[];
+  removed: TrademarkResult[];
+  statusChanges: FieldChange[];
+  ownerChanges: FieldChange[];
+  /** Set when either run was cut off at the watch limit; removals are then not reported */
+  truncated: boolean;
+  hasChanges: boolean;
+}
+
+export interface DiffOptions {
+  /**
+   * Either run holds only part of the register's results. A mark missing
+   * from the current run may then just have dropped below the limit, e.g.
+   * when the site reorders results, so it is not reported as removed.
+   */
+  truncated?: boolean;
+}
+
+/**
+ * Whether a run holds fewer results than the register reported, i.e. it stopped at the limit.
+ */
+export function isTruncated(results: { results: unknown[]; totalResults?: number }): boolean {
+  return results.totalResults !== undefined && results.results.length < results.totalResults;
+}
+
+/**
+ * Identifies a filing across runs by its application number, falling back to
+ * mark, owner and country for rows the register shows without a number.
+ */
+export function resultKey(result: TrademarkResult): string {
+  if (result.applicationNumber) {
+    return result.applicationNumber.replace(/\s+/g, '').toUpperCase();
+  }
+  return `${result.mark}|${result.owner}|${result.country}`.toLowerCase();
+}
+
+export function diffResults(previous: TrademarkResult[], current: TrademarkResult[], options: DiffOptions = {}): ResultDiff {
+  const truncated = Boolean(options.truncated);
+  const before = new Map(previous.map(result => [resultKey(result), result]));
+  const after = new Map(current.map(result => [resultKey(result), result]));
+
+  const added: TrademarkResult[] = [];
+  const statusChanges: FieldChange[] = [];
+  const ownerChanges: FieldChange[] = [];
+
+  for (const [key, result] of after) {
+    const earlier = before.get(key);
+    if (!earlier) {
+      added.push(result);
+      continue;
+    }
+
+    if (earlier.status !== result.status) {
+      statusChanges.push({ key, mark: result.mark, from: earlier.status, to: result.status });
+    }
+    if (earlier.owner.trim().toLowerCase() !== result.owner.trim().toLowerCase()) {
+      ownerChanges.push({ key, mark: result.mark, from: earlier.owner, to: result.owner });
+    }
+  }
+
+  const removed = truncated ? [] : previous.filter(result => !after.has(resultKey(result)));
+
+  return {
+    added,
+    removed,
+    statusChanges,
+    ownerChanges,
+    truncated,
+    hasChanges: added.length + removed.length + statusChanges.length + ownerChanges.length > 0
+  };
+}
@@ -0,0 +1,273 @@
+import chalk, { Chalk } from 'chalk';
+import { writeFile } from 'fs/promises';
+import { z } from 'zod';
+import {
+  SearchResults,
+  TrademarkResult,
+  TrademarkResultSchema
+} from '../schemas/trademarkSchema.js';
+import type { BatchOutcome } from './batchRunner.js';
+import { describeNiceClasses } from './niceClasses.js';
+import { countStatuses, formatStatusCounts, statusGroupOf } from './statuses.js';
+
+export const OutputFormatSchema = z.enum(['table', 'json', 'ndjson', 'csv', 'markdown']);
+
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+/**
+ * SearchResults fields repeated on every row, so a row-based export keeps the
+ * whole search and not only its results.
+ */
+export const SEARCH_COLUMNS = ['totalResults', 'page', 'searchTime', 'timestamp', 'fromCache', 'filters'] as const;
+
+/**
+ * Column order shared by the row-based formats: the search query and the
+ * search fields, followed by every TrademarkResult field in schema order.
+ */
+export const RESULT_COLUMNS = ['query', ...SEARCH_COLUMNS, ...Object.keys(TrademarkResultSchema.shape)] as const;
+
+// The Markdown report lists the search fields above its table instead
+const MARKDOWN_COLUMNS = RESULT_COLUMNS.filter(column => !(SEARCH_COLUMNS as readonly string[]).includes(column));
+
+/**
+ * Columns of a combined batch report: the per-query status ahead of the result columns.
+ */
+export const BATCH_COLUMNS = ['queryStatus', 'queryError', ...RESULT_COLUMNS] as const;
+
+export function isMachineFormat(format: OutputFormat): boolean {
+  return format !== 'table';
+}
+
+/**
+ * Sends console.log output to stderr so that stdout only carries the
+ * rendered results when piping a machine-readable format.
+ */
+export function redirectLogsToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+export function renderResults(results: SearchResults, format: OutputFormat, options: { color?: boolean } = {}): string {
+  switch (format) {
+    case 'table':
+      return renderTable(results, options.color ?? true);
+    case 'json':
+      return JSON.stringify(results, null, 2) + '\n';
+    case 'ndjson':
+      // Missing fields become null so every line carries the same keys
+      return toRows(results).map(row => JSON.stringify(row, (_key, value) => value === undefined ? null : value)).join('\n') + (results.results.length > 0 ? '\n' : '');
+    case 'csv':
+      return renderCsv(results);
+    case 'markdown':
+      return renderMarkdown(results);
+  }
+}
+
+/**
+ * Describes how long ago a timestamp was, e.g. "5m" or "3h 12m".
+ */
+export function formatAge(timestamp: Date | string, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.floor((now.getTime() - new Date(timestamp).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+export async function writeOutput(content: string, file?: string): Promise<void> {
+  if (file) {
+    await writeFile(file, content, 'utf-8');
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+function toRows(results: SearchResults): Array<Record<string, unknown>> {
+  const searchFields = { ...results, fromCache: Boolean(results.fromCache), filters: results.filters ?? [] };
+  return results.results.map(result => {
+    const row: Record<string, unknown> = {};
+    for (const column of RESULT_COLUMNS) {
+      row[column] = column === 'query' || (SEARCH_COLUMNS as readonly string[]).includes(column)
+        ? searchFields[column as keyof typeof searchFields]
+        : result[column as keyof TrademarkResult];
+    }
+    return row;
+  });
+}
+
+/**
+ * One row per result of every query; a query that failed or found nothing
+ * still gets a single row carrying its status.
+ */
+function toBatchRows(outcomes: BatchOutcome[]): Array<Record<string, unknown>> {
+  return outcomes.flatMap(outcome => {
+    const base = { queryStatus: outcome.status, queryError: outcome.error };
+    const rows = outcome.results ? toRows(outcome.results) : [];
+    if (rows.length === 0) {
+      return [{ ...base, query: outcome.params.query }];
+    }
+    return rows.map(row => ({ ...base, ...row }));
+  });
+}
+
+export function renderBatch(outcomes: BatchOutcome[], format: OutputFormat): string {
+  const rows = toBatchRows(outcomes);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(outcomes, null, 2) + '\n';
+    case 'ndjson':
+      return rows.map(row => JSON.stringify(row, (_key, value) => value === undefined ? null : value)).join('\n') + (rows.length > 0 ? '\n' : '');
+    case 'csv':
+      return [
+        BATCH_COLUMNS.join(','),
+        ...rows.map(row => BATCH_COLUMNS.map(column => escapeCsv(formatCell(row[column]))).join(','))
+      ].join('\n') + '\n';
+    case 'markdown': {
+      const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+      return [
+        '# Batch trademark search',
+        '',
+        `| ${BATCH_COLUMNS.join(' | ')} |`,
+        `| ${BATCH_COLUMNS.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${BATCH_COLUMNS.map(column => escape(formatCell(row[column]))).join(' | ')} |`)
+      ].join('\n') + '\n';
+    }
+    case 'table': {
+      const c = new Chalk({ level: chalk.level });
+      return outcomes.map(outcome => {
+        const status = outcome.status === 'ok'
+          ? c.green(`✓ ${outcome.results!.results.length} of ${outcome.results!.totalResults} results`)
+          : c.red(`✗ ${outcome.error}`);
+        return `${c.yellow(outcome.params.query)}: ${status}`;
+      }).join('\n') + '\n';
+    }
+  }
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(formatCell).join('; ');
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderCsv(results: SearchResults): string {
+  const lines = [RESULT_COLUMNS.join(',')];
+  toRows(results).forEach(row => {
+    lines.push(RESULT_COLUMNS.map(column => escapeCsv(formatCell(row[column]))).join(','));
+  });
+  return lines.join('\n') + '\n';
+}
+
+function renderMarkdown(results: SearchResults): string {
+  const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const lines = [
+    `# Trademark search: ${escape(results.query)}`,
+    '',
+    `- Total results: ${results.totalResults}`,
+    `- Shown: ${results.results.length}`,
+    `- Status: ${formatStatusCounts(countStatuses(results.results)) || 'none'}`,
+    `- Pages read: ${results.page}`,
+    `- Search time: ${results.searchTime}ms`,
+    `- Timestamp: ${new Date(results.timestamp).toISOString()}`
+  ];
+
+  if (results.fromCache) {
+    lines.push(`- Served from cache (${formatAge(results.timestamp)} old)`);
+  }
+
+  if (results.filters && results.filters.length > 0) {
+    lines.push('', '## Filters', '');
+    results.filters.forEach(filter => {
+      const outcome = filter.applied
+        ? `applied${filter.reason ? ` (${escape(filter.reason)})` : ''}`
+        : `not applied (${escape(filter.reason || 'unknown reason')})`;
+      lines.push(`- ${filter.filter}: ${escape(filter.value)} — ${outcome}`);
+    });
+  }
+
+  lines.push('', '## Results', '');
+  lines.push(`| ${MARKDOWN_COLUMNS.join(' | ')} |`);
+  lines.push(`| ${MARKDOWN_COLUMNS.map(() => '---').join(' | ')} |`);
+  toRows(results).forEach(row => {
+    // Class titles help readers of the report; the data formats keep bare numbers
+    const cells: Record<string, unknown> = { ...row, niceClasses: describeNiceClasses(row.niceClasses as number[]) };
+    lines.push(`| ${MARKDOWN_COLUMNS.map(column => escape(formatCell(cells[column]))).join(' | ')} |`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+function renderTable(results: SearchResults, color: boolean): string {
+  const c = new Chalk({ level: color ? chalk.level : 0 });
+  const lines: string[] = [];
+
+  lines.push(c.green(`\n✅ Search completed successfully!`));
+  if (results.filters && results.filters.length > 0) {
+    lines.push(c.cyan('Filters:'));
+    results.filters.forEach(filter => {
+      if (filter.applied) {
+        lines.push(`  ${c.green('✓')} ${filter.filter}: ${filter.value}${filter.reason ? ` ${c.gray(`(${filter.reason})`)}` : ''}`);
+      } else {
+        lines.push(`  ${c.red('✗')} ${filter.filter}: ${filter.value} ${c.gray(`(not applied: ${filter.reason || 'unknown reason'})`)}`);
+      }
+    });
+    lines.push('');
+  }
+
+  lines.push(c.blue(`Found ${results.totalResults} results, showing ${results.results.length} (${results.page} page${results.page === 1 ? '' : 's'} read)`));
+  if (results.results.length > 0) {
+    lines.push(c.blue(`Status: ${formatStatusCounts(countStatuses(results.results))}`));
+  }
+  lines.push('');
+
+  results.results.forEach((result, index) => {
+    lines.push(c.yellow(`${index + 1}. ${result.mark || 'Unknown Mark'}`));
+    if (result.similarity) {
+      const { score, risk, factors } = result.similarity;
+      const riskColor = risk === 'high' ? c.red : risk === 'medium' ? c.yellow : c.green;
+      const breakdown = [
+        `string ${factors.string}`,
+        `phonetic ${factors.phonetic}`,
+        `prefix ${factors.prefix}`,
+        factors.classOverlap !== undefined ? `classes ${factors.classOverlap}` : undefined
+      ].filter(Boolean).join(', ');
+      lines.push(`   Similarity: ${riskColor(`${score} (${risk} risk)`)} ${c.gray(`[${breakdown}]`)}`);
+    }
+    lines.push(`   Application: ${result.applicationNumber || 'N/A'}`);
+    lines.push(`   Owner: ${result.owner || 'N/A'}`);
+    lines.push(`   Country: ${result.country ? `${result.country}${result.countryName ? ` (${result.countryName})` : ''}` : 'N/A'}`);
+    const group = result.statusGroup ?? statusGroupOf(result.status);
+    const statusText = result.statusText && result.statusText !== result.status ? c.gray(` [${result.statusText}]`) : '';
+    const groupLabel = group === 'unknown' ? '' : ` (${group === 'dead' ? c.red(group) : group})`;
+    lines.push(`   Status: ${result.status || 'Unknown'}${groupLabel}${statusText}`);
+    lines.push(`   Filing Date: ${result.filingDate || 'N/A'}`);
+    if (result.registrationNumber) lines.push(`   Registration: ${result.registrationNumber}`);
+    if (result.registrationDate) lines.push(`   Registration Date: ${result.registrationDate}`);
+    if (result.expiryDate) lines.push(`   Expiry Date: ${result.expiryDate}${result.expiryDateComputed ? c.gray(' (computed from term rules)') : ''}`);
+    if (result.niceClasses.length > 0) lines.push(`   Nice Classes: ${describeNiceClasses(result.niceClasses)}`);
+    if (result.goodsServices) lines.push(`   Goods/Services: ${result.goodsServices}`);
+    if (result.imageUrl) lines.push(`   Image: ${result.imageUrl}`);
+    if (result.imagePath) lines.push(c.gray(`   Stored Image: ${result.imagePath} (aHash ${result.imageHash?.aHash}, dHash ${result.imageHash?.dHash})`));
+    if (result.detailsUrl) lines.push(`   Details: ${result.detailsUrl}`);
+    if (result.provenance && result.provenance.method !== 'rules') {
+      const { method, formatter, model } = result.provenance;
+      lines.push(c.gray(`   Parsed: ${method} (${formatter}${model ? ` ${model}` : ''})`));
+    }
+    lines.push('');
+  });
+
+  lines.push(c.gray(`Search completed in ${results.searchTime}ms`));
+  lines.push(c.gray(`Timestamp: ${results.timestamp}`));
+  if (results.fromCache) {
+    lines.push(c.gray(`Served from cache (${formatAge(results.timestamp)} old)`));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { cacheKey, normalizeSearchParams } from './searchCache.js';
+
+function params(overrides: Partial<TrademarkSearchParams> = {}): TrademarkSearchParams {
+  return { query: 'Nike', searchType: 'brand', limit: 10, ...overrides };
+}
+
+describe('normalizeSearchParams', () => {
+  it('lists Nice classes with commas in order, whatever the separators', () => {
+    expect(normalizeSearchParams(params({ nice: '35; 25 9' })).nice).toBe('9,25,35');
+    expect(normalizeSearchParams(params({ nice: '25,25' })).nice).toBe('25');
+  });
+
+  it('ignores query casing and spacing', () => {
+    expect(normalizeSearchParams(params({ query: '  NIKE   Air ' })).query).toBe('nike air');
+  });
+});
+
+describe('cacheKey', () => {
+  it('shares a key between equivalent Nice class lists', () => {
+    expect(cacheKey(params({ nice: '25 35' }))).toBe(cacheKey(params({ nice: '35,25' })));
+  });
+
+  it('keys by the formatter and model that parsed the results', () => {
+    expect(cacheKey(params(), { formatter: 'openai', model: 'gpt-4o-mini' }))
+      .not.toBe(cacheKey(params(), { formatter: 'openai', model: 'gpt-4o' }));
+  });
+});
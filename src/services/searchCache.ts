@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { SearchResults, TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { DEFAULT_SOURCE_ID } from '../sources/index.js';
+import { config } from '../config/config.js';
+import { findJurisdiction } from './jurisdictions.js';
+import { parseNiceClasses } from './similarity.js';
+
+/**
+ * The formatter, and model if any, that parsed a cached search; the same
+ * search parses differently with another formatter or model.
+ */
+export interface CacheParser {
+  formatter: string;
+  model?: string;
+}
+
+export interface CacheEntry {
+  key: string;
+  params: TrademarkSearchParams;
+  parser?: CacheParser;
+  createdAt: string;
+  expiresAt: string;
+  results: SearchResults;
+  rawResults: any[];
+}
+
+/**
+ * Reduces search parameters to a canonical form so equivalent searches
+ * (different casing, spacing or Nice class order) share a cache entry.
+ */
+export function normalizeSearchParams(params: TrademarkSearchParams): TrademarkSearchParams {
+  const normalized: TrademarkSearchParams = {
+    query: params.query.trim().replace(/\s+/g, ' ').toLowerCase(),
+    searchType: params.searchType,
+    limit: params.limit,
+    source: params.source || DEFAULT_SOURCE_ID
+  };
+
+  if (params.country) normalized.country = findJurisdiction(params.country)?.code ?? params.country.trim().toUpperCase();
+  if (params.nice) {
+    normalized.nice = Array.from(new Set(parseNiceClasses(params.nice)))
+      .sort((a, b) => a - b)
+      .join(',');
+  }
+  if (params.status) normalized.status = params.status;
+  if (params.details) normalized.details = true;
+  if (params.images) normalized.images = true;
+
+  return normalized;
+}
+
+/**
+ * Hashes the normalized search parameters and, when given, the parser, so
+ * results parsed by one formatter or model are not served for another.
+ */
+export function cacheKey(params: TrademarkSearchParams, parser?: CacheParser): string {
+  const normalized = normalizeSearchParams(params);
+  const ordered: Array<[string, unknown]> = Object.keys(normalized)
+    .sort()
+    .map(key => [key, normalized[key as keyof TrademarkSearchParams]]);
+  if (parser) ordered.push(['parser', [parser.formatter, parser.model ?? '']]);
+  return createHash('sha256').update(JSON.stringify(ordered)).digest('hex');
+}
+
+export function isExpired(entry: CacheEntry, now: Date = new Date()): boolean {
+  return new Date(entry.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * File-based cache of formatted search results and their raw records, one
+ * JSON file per normalized search.
+ */
+export class SearchCache {
+  constructor(
+    private dir: string = config.cache.dir,
+    private ttlMs: number = config.cache.ttlMs
+  ) {}
+
+  async get(params: TrademarkSearchParams, parser?: CacheParser): Promise<CacheEntry | null> {
+    const entry = await this.read(cacheKey(params, parser));
+    if (!entry || isExpired(entry)) {
+      return null;
+    }
+    return entry;
+  }
+
+  async set(params: TrademarkSearchParams, results: SearchResults, rawResults: any[] = [], parser?: CacheParser): Promise<CacheEntry> {
+    const createdAt = new Date(results.timestamp);
+    const entry: CacheEntry = {
+      key: cacheKey(params, parser),
+      params: normalizeSearchParams(params),
+      parser,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + this.ttlMs).toISOString(),
+      results: { ...results, fromCache: undefined },
+      rawResults
+    };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(entry.key), JSON.stringify(entry, null, 2), 'utf-8');
+    return entry;
+  }
+
+  /**
+   * Reads an entry by its full key or a unique key prefix, expired or not.
+   */
+  async read(keyOrPrefix: string): Promise<CacheEntry | null> {
+    const keys = (await this.keys()).filter(key => key.startsWith(keyOrPrefix));
+    if (keys.length !== 1) {
+      return null;
+    }
+
+    try {
+      const entry: CacheEntry = JSON.parse(await readFile(this.pathFor(keys[0]), 'utf-8'));
+      return {
+        ...entry,
+        results: { ...entry.results, timestamp: new Date(entry.results.timestamp) }
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async list(): Promise<CacheEntry[]> {
+    const entries = await Promise.all((await this.keys()).map(key => this.read(key)));
+    return entries
+      .filter((entry): entry is CacheEntry => entry !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Deletes cached entries and returns how many were removed.
+   */
+  async purge(options: { expiredOnly?: boolean; key?: string } = {}): Promise<number> {
+    let entries = await this.list();
+    if (options.key) entries = entries.filter(entry => entry.key.startsWith(options.key!));
+    if (options.expiredOnly) entries = entries.filter(entry => isExpired(entry));
+
+    await Promise.all(entries.map(entry => rm(this.pathFor(entry.key), { force: true })));
+    return entries.length;
+  }
+
+  private async keys(): Promise<string[]> {
+    try {
+      return (await readdir(this.dir))
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length));
+    } catch {
+      return [];
+    }
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
@@ -0,0 +1,74 @@
+import { Browser, BrowserContext } from 'playwright';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { getLogger } from './logger.js';
+
+const logger = getLogger('recorder');
+
+export interface RecordingOptions {
+  mode: 'record' | 'replay';
+  dir: string;
+}
+
+interface RecordingManifest {
+  recordedAt: string;
+  params?: TrademarkSearchParams;
+}
+
+const HAR_FILE = 'session.har';
+const MANIFEST_FILE = 'recording.json';
+
+/**
+ * Routes a browser context through a HAR archive. In record mode every page
+ * and XHR response of the run is captured into the archive; in replay mode
+ * requests are answered from it and anything not recorded is aborted, so the
+ * run never touches the network.
+ */
+export async function applyRecording(
+  context: BrowserContext,
+  recording: RecordingOptions | undefined,
+  params?: TrademarkSearchParams
+): Promise<void> {
+  if (!recording) return;
+
+  const harPath = path.join(recording.dir, HAR_FILE);
+  const manifestPath = path.join(recording.dir, MANIFEST_FILE);
+
+  if (recording.mode === 'record') {
+    await mkdir(recording.dir, { recursive: true });
+    const manifest: RecordingManifest = { recordedAt: new Date().toISOString(), params };
+    await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+
+    logger.info(`📼 Recording session to ${harPath}`);
+    await context.routeFromHAR(harPath, { update: true, updateContent: 'attach', updateMode: 'full' });
+    return;
+  }
+
+  if (!existsSync(harPath)) {
+    throw new Error(`No recorded session found at ${harPath}`);
+  }
+
+  if (params && existsSync(manifestPath)) {
+    const manifest: RecordingManifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+    if (manifest.params && JSON.stringify(manifest.params) !== JSON.stringify(params)) {
+      logger.warn(`⚠️  Replaying a session recorded for different search parameters (${manifest.params.query}); unmatched requests will fail`);
+    }
+  }
+
+  logger.info(`📼 Replaying session from ${harPath}`);
+  await context.routeFromHAR(harPath, { notFound: 'abort' });
+}
+
+/**
+ * Closes the context before the browser so a recorded HAR archive is flushed to disk.
+ */
+export async function closeBrowserSession(browser: Browser | undefined, context?: BrowserContext): Promise<void> {
+  if (context) {
+    await context.close().catch(() => undefined);
+  }
+  if (browser?.isConnected()) {
+    await browser.close();
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { trademarkResult } from '../testing/trademarkResults.js';
+import {
+  classOverlap,
+  levenshtein,
+  metaphone,
+  normalizeMark,
+  parseNiceClasses,
+  prefixSimilarity,
+  rankResults,
+  scoreSimilarity,
+  soundex
+} from './similarity.js';
+
+describe('normalizeMark', () => {
+  it('ignores case, accents, punctuation and spacing', () => {
+    expect(normalizeMark('Nike-Air')).toBe(normalizeMark('NIKE AIR'));
+    expect(normalizeMark('Café Noir')).toBe('cafenoir');
+  });
+});
+
+describe('string and phonetic encodings', () => {
+  it('counts edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(levenshtein('same', 'same')).toBe(0);
+  });
+
+  it('encodes Soundex', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+  });
+
+  it('gives sound-alike marks the same Metaphone code', () => {
+    expect(metaphone('Kool')).toBe(metaphone('Cool'));
+    expect(metaphone('Fone')).toBe(metaphone('Phone'));
+  });
+});
+
+describe('prefixSimilarity', () => {
+  it('scores containment of one mark in the other', () => {
+    expect(prefixSimilarity('nike', 'nikelab')).toBeGreaterThan(0.8);
+    expect(prefixSimilarity('nike', 'nike')).toBe(1);
+    expect(prefixSimilarity('nike', 'adidas')).toBe(0);
+  });
+});
+
+describe('classOverlap', () => {
+  it('is the share of searched classes the result covers', () => {
+    expect(classOverlap([25, 35], [25])).toBe(0.5);
+    expect(classOverlap([], [25])).toBeUndefined();
+    expect(classOverlap([25], [])).toBeUndefined();
+  });
+});
+
+describe('parseNiceClasses', () => {
+  it('accepts commas, semicolons and whitespace', () => {
+    expect(parseNiceClasses('25, 35;9 42')).toEqual([25, 35, 9, 42]);
+    expect(parseNiceClasses(undefined)).toEqual([]);
+  });
+});
+
+describe('scoreSimilarity', () => {
+  it('rates identical marks as high risk', () => {
+    const similarity = scoreSimilarity('Nike', trademarkResult({ mark: 'NIKE' }));
+    expect(similarity.score).toBe(1);
+    expect(similarity.risk).toBe('high');
+  });
+
+  it('rates unrelated marks as low risk', () => {
+    expect(scoreSimilarity('Nike', trademarkResult({ mark: 'Zebra Tools' })).risk).toBe('low');
+  });
+
+  it('only weighs class overlap when both sides list classes', () => {
+    expect(scoreSimilarity('Nike', trademarkResult({ mark: 'Nyke' })).factors.classOverlap).toBeUndefined();
+
+    const sameClass = scoreSimilarity('Nike', trademarkResult({ mark: 'Nyke', niceClasses: [25] }), [25]);
+    const otherClass = scoreSimilarity('Nike', trademarkResult({ mark: 'Nyke', niceClasses: [9] }), [25]);
+    expect(sameClass.factors.classOverlap).toBe(1);
+    expect(sameClass.score).toBeGreaterThan(otherClass.score);
+  });
+});
+
+describe('rankResults', () => {
+  it('sorts results by score, highest first', () => {
+    const ranked = rankResults('Nike', ['Zebra', 'Nike', 'Nikelab'].map(mark => trademarkResult({ mark })));
+    expect(ranked.map(r => r.mark)).toEqual(['Nike', 'Nikelab', 'Zebra']);
+    expect(ranked.every(r => r.similarity)).toBe(true);
+  });
+});
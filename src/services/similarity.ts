@@ -0,0 +1,243 @@
+import { TrademarkResult, TrademarkSimilarity } from '../schemas/trademarkSchema.js';
+
+const FACTOR_WEIGHTS = {
+  string: 0.35,
+  phonetic: 0.3,
+  prefix: 0.15,
+  classOverlap: 0.2
+};
+
+const HIGH_RISK = 0.75;
+const MEDIUM_RISK = 0.5;
+
+/**
+ * Lowercases a mark and strips accents, punctuation and spacing so that
+ * "Nike-Air" and "NIKE AIR" compare as the same string.
+ */
+export function normalizeMark(mark: string): string {
+  return mark
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function stringSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - levenshtein(a, b) / maxLength;
+}
+
+export function soundex(word: string): string {
+  const letters = word.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!letters) return '';
+
+  const codes: Record<string, string> = {
+    B: '1', F: '1', P: '1', V: '1',
+    C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+    D: '3', T: '3',
+    L: '4',
+    M: '5', N: '5',
+    R: '6'
+  };
+
+  let result = letters[0];
+  let previous = codes[letters[0]] || '';
+  for (const letter of letters.slice(1)) {
+    const code = codes[letter] || '';
+    if (code && code !== previous) result += code;
+    // H and W do not separate letters with the same code, vowels do
+    if (letter !== 'H' && letter !== 'W') previous = code;
+  }
+
+  return (result + '000').slice(0, 4);
+}
+
+/**
+ * Simplified Metaphone encoding of an English-pronounced word.
+ */
+export function metaphone(word: string): string {
+  let w = word.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!w) return '';
+
+  // Initial letter exceptions
+  if (/^(AE|GN|KN|PN|WR)/.test(w)) w = w.slice(1);
+  if (w[0] === 'X') w = 'S' + w.slice(1);
+  if (w.startsWith('WH')) w = 'W' + w.slice(2);
+
+  const isVowel = (c: string | undefined) => c !== undefined && 'AEIOU'.includes(c);
+  let code = '';
+
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i];
+    const prev = w[i - 1];
+    const next = w[i + 1];
+    const next2 = w[i + 2];
+
+    // Skip duplicate letters except C
+    if (c === prev && c !== 'C') continue;
+
+    switch (c) {
+      case 'A': case 'E': case 'I': case 'O': case 'U':
+        if (i === 0) code += c;
+        break;
+      case 'B':
+        if (!(prev === 'M' && i === w.length - 1)) code += 'B';
+        break;
+      case 'C':
+        if (next === 'I' && next2 === 'A') code += 'X';
+        else if (next === 'H') code += prev === 'S' ? 'K' : 'X';
+        else if (next === 'I' || next === 'E' || next === 'Y') {
+          if (prev !== 'S') code += 'S';
+        } else code += 'K';
+        break;
+      case 'D':
+        code += next === 'G' && (next2 === 'E' || next2 === 'Y' || next2 === 'I') ? 'J' : 'T';
+        break;
+      case 'G':
+        if (next === 'H' && !(i + 2 >= w.length || isVowel(next2))) break;
+        if (next === 'N' && (i + 2 === w.length || w.slice(i + 1) === 'NED')) break;
+        if ((next === 'I' || next === 'E' || next === 'Y') && prev !== 'G') code += 'J';
+        else code += 'K';
+        break;
+      case 'H':
+        if (isVowel(next) && !'CSPTG'.includes(prev || '')) code += 'H';
+        break;
+      case 'K':
+        if (prev !== 'C') code += 'K';
+        break;
+      case 'P':
+        code += next === 'H' ? 'F' : 'P';
+        break;
+      case 'Q':
+        code += 'K';
+        break;
+      case 'S':
+        if (next === 'H' || (next === 'I' && (next2 === 'O' || next2 === 'A'))) code += 'X';
+        else code += 'S';
+        break;
+      case 'T':
+        if (next === 'I' && (next2 === 'O' || next2 === 'A')) code += 'X';
+        else if (next === 'H') code += '0';
+        else if (!(next === 'C' && next2 === 'H')) code += 'T';
+        break;
+      case 'V':
+        code += 'F';
+        break;
+      case 'W': case 'Y':
+        if (isVowel(next)) code += c;
+        break;
+      case 'X':
+        code += 'KS';
+        break;
+      case 'Z':
+        code += 'S';
+        break;
+      default:
+        code += c;
+    }
+  }
+
+  return code;
+}
+
+export function phoneticSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  const codeSimilarity = stringSimilarity(metaphone(a), metaphone(b));
+  const soundexMatch = soundex(a) === soundex(b) ? 0.85 : 0;
+  return Math.max(codeSimilarity, soundexMatch);
+}
+
+/**
+ * Scores shared beginnings and one mark containing the other, which
+ * examiners weigh heavily ("NIKE" vs "NIKELAB").
+ */
+export function prefixSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 3 && longer.includes(shorter)) {
+    return 0.6 + 0.4 * (shorter.length / longer.length);
+  }
+
+  let common = 0;
+  while (common < shorter.length && shorter[common] === longer[common]) common++;
+  return common >= 2 ? (common / shorter.length) * 0.8 : 0;
+}
+
+export function classOverlap(searched: number[], result: number[]): number | undefined {
+  if (searched.length === 0 || result.length === 0) return undefined;
+  const resultClasses = new Set(result);
+  return searched.filter(n => resultClasses.has(n)).length / searched.length;
+}
+
+export function parseNiceClasses(nice?: string): number[] {
+  if (!nice) return [];
+  return nice
+    .split(/[,;\s]+/)
+    .map(n => parseInt(n))
+    .filter(n => !isNaN(n));
+}
+
+/**
+ * Scores how likely a result is to be confused with the searched mark.
+ * Class overlap only counts when both the user and the result name classes;
+ * otherwise the remaining factors are reweighted.
+ */
+export function scoreSimilarity(query: string, result: TrademarkResult, niceClasses: number[] = []): TrademarkSimilarity {
+  const a = normalizeMark(query);
+  const b = normalizeMark(result.mark);
+
+  const factors = {
+    string: round(stringSimilarity(a, b)),
+    phonetic: round(phoneticSimilarity(a, b)),
+    prefix: round(prefixSimilarity(a, b)),
+    classOverlap: classOverlap(niceClasses, result.niceClasses)
+  };
+
+  let weighted = factors.string * FACTOR_WEIGHTS.string
+    + factors.phonetic * FACTOR_WEIGHTS.phonetic
+    + factors.prefix * FACTOR_WEIGHTS.prefix;
+  let totalWeight = FACTOR_WEIGHTS.string + FACTOR_WEIGHTS.phonetic + FACTOR_WEIGHTS.prefix;
+
+  if (factors.classOverlap !== undefined) {
+    factors.classOverlap = round(factors.classOverlap);
+    weighted += factors.classOverlap * FACTOR_WEIGHTS.classOverlap;
+    totalWeight += FACTOR_WEIGHTS.classOverlap;
+  }
+
+  const score = round(weighted / totalWeight);
+  const risk = score >= HIGH_RISK ? 'high' : score >= MEDIUM_RISK ? 'medium' : 'low';
+
+  return { score, risk, factors };
+}
+
+/**
+ * Attaches a similarity score to every result and sorts them by risk, highest first.
+ */
+export function rankResults(query: string, results: TrademarkResult[], niceClasses: number[] = []): TrademarkResult[] {
+  return results
+    .map(result => ({ ...result, similarity: scoreSimilarity(query, result, niceClasses) }))
+    .sort((x, y) => y.similarity.score - x.similarity.score);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
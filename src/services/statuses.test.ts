@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { TrademarkStatus } from '../schemas/trademarkSchema.js';
+import { trademarkResult } from '../testing/trademarkResults.js';
+import { classifyStatus, countStatuses, filterLive, formatStatusCounts, normalizeResultStatus, statusGroupOf } from './statuses.js';
+
+function results(...statuses: TrademarkStatus[]) {
+  return statuses.map(status => trademarkResult({ status }));
+}
+
+describe('classifyStatus', () => {
+  it.each([
+    ['Registered', 'Registered'],
+    ['Registered and renewed', 'Renewed'],
+    ['Registration expired', 'Expired'],
+    ['Term ended', 'Expired'],
+    ['Not renewed', 'Expired'],
+    ['Application opposed', 'Opposed'],
+    ['Registration cancellation pending', 'Opposed'],
+    ['Abandoned - failure to respond', 'Abandoned'],
+    ['Refused', 'Refused'],
+    ['Published for opposition', 'Published'],
+    ['Examination suspended', 'Under Examination'],
+    ['Suspended', 'Under Examination'],
+    ['Application filed', 'Pending'],
+    ['Protected', 'Active'],
+    ['Live', 'Active']
+  ] as Array<[string, TrademarkStatus]>)('maps "%s" to %s', (text, status) => {
+    expect(classifyStatus(text)).toBe(status);
+  });
+
+  it('does not read "ended" inside other words', () => {
+    expect(classifyStatus('Suspended')).not.toBe('Expired');
+    expect(classifyStatus('Protection extended')).not.toBe('Expired');
+  });
+
+  it('does not read negated live states as live', () => {
+    expect(classifyStatus('Not registered')).toBe('Unknown');
+    expect(classifyStatus('Not yet registered, application pending')).toBe('Pending');
+    expect(classifyStatus('Not active')).toBe('Unknown');
+  });
+
+  it('returns Unknown for missing or unrecognised text', () => {
+    expect(classifyStatus(undefined)).toBe('Unknown');
+    expect(classifyStatus('See office records')).toBe('Unknown');
+  });
+});
+
+describe('normalizeResultStatus', () => {
+  it('classifies the register text and keeps it without status icons', () => {
+    expect(normalizeResultStatus(trademarkResult({ status: 'Unknown' }), '✅ Registered')).toMatchObject({
+      status: 'Registered',
+      statusGroup: 'live',
+      statusText: 'Registered'
+    });
+  });
+
+  it('keeps the existing status when the text is not recognised', () => {
+    expect(normalizeResultStatus(trademarkResult({ status: 'Expired' }), 'See office records')).toMatchObject({ status: 'Expired', statusGroup: 'dead' });
+  });
+});
+
+describe('status groups', () => {
+  it('counts and describes results by group', () => {
+    const counts = countStatuses(results('Registered', 'Registered', 'Pending', 'Expired', 'Unknown'));
+
+    expect(counts).toMatchObject({ live: 3, dead: 1, unknown: 1 });
+    expect(formatStatusCounts(counts)).toBe('3 live (Registered 2, Pending 1), 1 dead (Expired 1), 1 unknown');
+  });
+
+  it('drops dead marks but keeps unknown ones', () => {
+    const kept = filterLive(results('Registered', 'Cancelled', 'Unknown'));
+    expect(kept.map(r => r.status)).toEqual(['Registered', 'Unknown']);
+    expect(statusGroupOf('Cancelled')).toBe('dead');
+  });
+});
@@ -0,0 +1,104 @@
+import { TrademarkResult, TrademarkStatus, TrademarkStatusGroup } from '../schemas/trademarkSchema.js';
+
+export const STATUS_GROUPS: Record<TrademarkStatus, TrademarkStatusGroup> = {
+  'Active': 'live',
+  'Registered': 'live',
+  'Renewed': 'live',
+  'Pending': 'live',
+  'Under Examination': 'live',
+  'Published': 'live',
+  'Opposed': 'live',
+  'Expired': 'dead',
+  'Cancelled': 'dead',
+  'Refused': 'dead',
+  'Withdrawn': 'dead',
+  'Abandoned': 'dead',
+  'Surrendered': 'dead',
+  'Invalidated': 'dead',
+  'Unknown': 'unknown'
+};
+
+/**
+ * Status texts of WIPO and the national offices, first match wins. Pending
+ * proceedings come before the outcomes they may lead to, and dead outcomes
+ * before the registration they end ("Registration expired"). Live states
+ * negated by "not" ("Not registered") fall through to later patterns.
+ */
+const STATUS_PATTERNS: Array<[RegExp, TrademarkStatus]> = [
+  [/\bopposed\b|under opposition|opposition (pending|filed|proceeding)|contested|(cancellation|revocation|invalidity|invalidation) (pending|requested|filed|proceeding)/i, 'Opposed'],
+  [/surrender/i, 'Surrendered'],
+  [/withdraw/i, 'Withdrawn'],
+  [/abandon/i, 'Abandoned'],
+  [/refus|reject|denied/i, 'Refused'],
+  [/invalid|revoked/i, 'Invalidated'],
+  [/cancel|struck off|removed/i, 'Cancelled'],
+  [/expir|lapsed|\bended\b|inactive|not renewed|\bdead\b/i, 'Expired'],
+  [/renew/i, 'Renewed'],
+  [/(?<!\bnot (yet )?)\bregistered\b|registration (granted|in force)/i, 'Registered'],
+  [/publish|publication|advertised/i, 'Published'],
+  [/exam|formalit|non-final action|suspended|under review/i, 'Under Examination'],
+  [/pending|filed|application|applied/i, 'Pending'],
+  [/(?<!\bnot (yet )?)(active|\blive\b|protected|in force|valid)/i, 'Active']
+];
+
+/**
+ * Maps a register's status text onto the status taxonomy, Unknown when no pattern matches.
+ */
+export function classifyStatus(text: string | undefined): TrademarkStatus {
+  if (!text) return 'Unknown';
+  return STATUS_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'Unknown';
+}
+
+export function statusGroupOf(status: TrademarkStatus): TrademarkStatusGroup {
+  return STATUS_GROUPS[status] ?? 'unknown';
+}
+
+/**
+ * Sets a result's status and group from the register's status text, keeping
+ * the text itself. Without text, or when the text is not recognised, the
+ * status already on the result (e.g. a model's reading) is kept.
+ */
+export function normalizeResultStatus<T extends Pick<TrademarkResult, 'status' | 'statusGroup' | 'statusText'>>(result: T, rawText?: string): T {
+  const statusText = rawText?.replace(/[✅❌]/g, '').trim() || undefined;
+  const classified = classifyStatus(statusText);
+  const status = classified === 'Unknown' ? result.status : classified;
+  return { ...result, status, statusGroup: statusGroupOf(status), statusText };
+}
+
+export interface StatusCounts {
+  live: number;
+  dead: number;
+  unknown: number;
+  byStatus: Partial<Record<TrademarkStatus, number>>;
+}
+
+export function countStatuses(results: TrademarkResult[]): StatusCounts {
+  const counts: StatusCounts = { live: 0, dead: 0, unknown: 0, byStatus: {} };
+  for (const result of results) {
+    counts[statusGroupOf(result.status)]++;
+    counts.byStatus[result.status] = (counts.byStatus[result.status] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Describes status counts, e.g. "8 live (Registered 6, Pending 2), 3 dead (Expired 3)".
+ */
+export function formatStatusCounts(counts: StatusCounts): string {
+  return (['live', 'dead', 'unknown'] as const)
+    .filter(group => counts[group] > 0)
+    .map(group => {
+      const statuses = Object.entries(counts.byStatus)
+        .filter(([status]) => statusGroupOf(status as TrademarkStatus) === group && group !== 'unknown')
+        .map(([status, count]) => `${status} ${count}`);
+      return `${counts[group]} ${group}${statuses.length > 0 ? ` (${statuses.join(', ')})` : ''}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Drops dead marks. Marks of unknown status are kept, since they may still conflict.
+ */
+export function filterLive(results: TrademarkResult[]): TrademarkResult[] {
+  return results.filter(result => statusGroupOf(result.status) !== 'dead');
+}
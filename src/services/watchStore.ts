@@ -0,0 +1,94 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { TrademarkResult, TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { config } from '../config/config.js';
+
+export interface Watch {
+  id: string;
+  name: string;
+  params: TrademarkSearchParams;
+  createdAt: string;
+  lastRunAt?: string;
+}
+
+export interface WatchSnapshot {
+  watchId: string;
+  takenAt: string;
+  results: TrademarkResult[];
+  /** Results the register reported, more than `results` holds when the run stopped at the limit */
+  totalResults?: number;
+}
+
+/**
+ * Persists watched searches and the latest result snapshot of each, so every
+ * run can be compared with the one before it.
+ */
+export class WatchStore {
+  constructor(private dir: string = config.watch.dir) {}
+
+  async list(): Promise<Watch[]> {
+    try {
+      return JSON.parse(await readFile(this.watchesPath(), 'utf-8'));
+    } catch {
+      return [];
+    }
+  }
+
+  async get(idOrName: string): Promise<Watch | undefined> {
+    const watches = await this.list();
+    return watches.find(watch => watch.id === idOrName) || watches.find(watch => watch.name === idOrName);
+  }
+
+  async add(params: TrademarkSearchParams, name?: string): Promise<Watch> {
+    const watches = await this.list();
+    const watch: Watch = {
+      id: randomBytes(4).toString('hex'),
+      name: name || params.query,
+      params,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.save([...watches, watch]);
+    return watch;
+  }
+
+  async remove(idOrName: string): Promise<Watch | undefined> {
+    const watch = await this.get(idOrName);
+    if (!watch) return undefined;
+
+    await this.save((await this.list()).filter(w => w.id !== watch.id));
+    await rm(this.snapshotPath(watch.id), { force: true });
+    return watch;
+  }
+
+  async readSnapshot(watchId: string): Promise<WatchSnapshot | null> {
+    try {
+      return JSON.parse(await readFile(this.snapshotPath(watchId), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async writeSnapshot(watchId: string, results: TrademarkResult[], takenAt: Date = new Date(), totalResults?: number): Promise<void> {
+    const snapshot: WatchSnapshot = { watchId, takenAt: takenAt.toISOString(), results, totalResults };
+    await mkdir(path.dirname(this.snapshotPath(watchId)), { recursive: true });
+    await writeFile(this.snapshotPath(watchId), JSON.stringify(snapshot, null, 2), 'utf-8');
+
+    const watches = await this.list();
+    await this.save(watches.map(w => (w.id === watchId ? { ...w, lastRunAt: snapshot.takenAt } : w)));
+  }
+
+  private async save(watches: Watch[]): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.watchesPath(), JSON.stringify(watches, null, 2), 'utf-8');
+  }
+
+  private watchesPath(): string {
+    return path.join(this.dir, 'watches.json');
+  }
+
+  private snapshotPath(watchId: string): string {
+    return path.join(this.dir, 'snapshots', `${watchId}.json`);
+  }
+}
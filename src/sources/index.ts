@@ -0,0 +1,34 @@
+import { TrademarkSource } from './trademarkSource.js';
+import { WIPOSource } from './wipoSource.js';
+
+export * from './trademarkSource.js';
+export { WIPOSource } from './wipoSource.js';
+
+export const DEFAULT_SOURCE_ID = 'wipo';
+
+const factories = new Map<string, () => TrademarkSource>([
+  ['wipo', () => new WIPOSource()]
+]);
+
+/**
+ * Registers an adapter for another trademark register, e.g. EUIPO eSearch or USPTO.
+ */
+export function registerSource(id: string, factory: () => TrademarkSource): void {
+  factories.set(id, factory);
+}
+
+export function getSource(id: string = DEFAULT_SOURCE_ID): TrademarkSource {
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown trademark source "${id}". Available sources: ${listSourceIds().join(', ')}`);
+  }
+  return factory();
+}
+
+export function listSourceIds(): string[] {
+  return Array.from(factories.keys());
+}
+
+export function listSources(): TrademarkSource[] {
+  return listSourceIds().map(id => getSource(id));
+}
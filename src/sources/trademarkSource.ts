@@ -0,0 +1,77 @@
+import { Page } from 'playwright';
+import {
+  SearchFilterResult,
+  TrademarkSearchParams
+} from '../schemas/trademarkSchema.js';
+
+export type SearchType = TrademarkSearchParams['searchType'];
+export type SearchFilter = Exclude<SearchFilterResult['filter'], 'searchType' | 'liveOnly' | 'expiringWithin'>;
+
+export interface SourceCapabilities {
+  searchTypes: SearchType[];
+  filters: SearchFilter[];
+}
+
+export interface SourceSearchOutcome {
+  filters: SearchFilterResult[];
+}
+
+export interface SourceExtraction {
+  results: any[];
+  totalResults: number;
+  page: number;
+  pageSize?: number;
+}
+
+/**
+ * A trademark register the agents can search. Implementations drive the
+ * register's site through a Playwright page and return raw records that
+ * the result formatter turns into TrademarkResults.
+ */
+export interface TrademarkSource {
+  readonly id: string;
+  readonly name: string;
+  readonly baseUrl: string;
+  readonly capabilities: SourceCapabilities;
+
+  authenticate(page: Page): Promise<void>;
+  search(page: Page, params: TrademarkSearchParams): Promise<SourceSearchOutcome>;
+  extract(page: Page, limit: number): Promise<SourceExtraction>;
+  getDetails(page: Page, url: string): Promise<Record<string, unknown>>;
+}
+
+export class UnsupportedSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedSearchError';
+  }
+}
+
+/**
+ * Lists the parts of a search a source cannot honour, empty when the source supports all of them.
+ */
+export function findUnsupported(source: TrademarkSource, params: TrademarkSearchParams): string[] {
+  const unsupported: string[] = [];
+
+  if (!source.capabilities.searchTypes.includes(params.searchType)) {
+    unsupported.push(`search type "${params.searchType}"`);
+  }
+
+  const requested: SearchFilter[] = [];
+  if (params.country) requested.push('country');
+  if (params.nice) requested.push('nice');
+  if (params.status) requested.push('status');
+
+  requested
+    .filter(filter => !source.capabilities.filters.includes(filter))
+    .forEach(filter => unsupported.push(`${filter} filter`));
+
+  return unsupported;
+}
+
+export function assertSourceSupports(source: TrademarkSource, params: TrademarkSearchParams): void {
+  const unsupported = findUnsupported(source, params);
+  if (unsupported.length > 0) {
+    throw new UnsupportedSearchError(`${source.name} does not support ${unsupported.join(', ')}`);
+  }
+}
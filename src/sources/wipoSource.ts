@@ -0,0 +1,75 @@
+import { Page } from 'playwright';
+import { TrademarkSearchParams } from '../schemas/trademarkSchema.js';
+import { WIPOScraperTool } from '../tools/scraperTool.js';
+import { config } from '../config/config.js';
+import {
+  SourceCapabilities,
+  SourceExtraction,
+  SourceSearchOutcome,
+  TrademarkSource
+} from './trademarkSource.js';
+
+/**
+ * WIPO Global Brand Database, scraped through WIPOScraperTool.
+ */
+export class WIPOSource implements TrademarkSource {
+  readonly id = 'wipo';
+  readonly name = 'WIPO Global Brand Database';
+  readonly capabilities: SourceCapabilities = {
+    searchTypes: ['brand', 'owner', 'number', 'image'],
+    filters: ['country', 'nice', 'status']
+  };
+
+  private scraper: WIPOScraperTool;
+
+  constructor(private baseUrlOverride?: string) {
+    this.scraper = new WIPOScraperTool(baseUrlOverride);
+  }
+
+  get baseUrl(): string {
+    return this.baseUrlOverride ?? config.wipo.baseUrl;
+  }
+
+  async authenticate(page: Page): Promise<void> {
+    const response = JSON.parse(await this.scraper.callAction(page, { action: 'handleCaptcha' }));
+
+    if (!response.success) {
+      throw new Error(response.message || response.error || 'Authentication failed');
+    }
+  }
+
+  async search(page: Page, params: TrademarkSearchParams): Promise<SourceSearchOutcome> {
+    const response = JSON.parse(await this.scraper.callAction(page, { action: 'searchTrademarks', params }));
+
+    if (!response.success) {
+      throw new Error(response.message || response.error || 'Search failed');
+    }
+
+    return { filters: response.filters || [] };
+  }
+
+  async extract(page: Page, limit: number): Promise<SourceExtraction> {
+    const response = JSON.parse(await this.scraper.callAction(page, { action: 'extractResults', limit }));
+
+    if (!response.success || !response.results) {
+      throw new Error(response.message || response.error || 'Failed to extract results');
+    }
+
+    return {
+      results: response.results,
+      totalResults: response.totalResults ?? response.results.length,
+      page: response.page ?? 1,
+      pageSize: response.pageSize
+    };
+  }
+
+  async getDetails(page: Page, url: string): Promise<Record<string, unknown>> {
+    const response = JSON.parse(await this.scraper.callAction(page, { action: 'getDetails', url }));
+
+    if (!response.success || !response.details) {
+      throw new Error(response.message || response.error || 'Details extraction failed');
+    }
+
+    return response.details;
+  }
+}
@@ -0,0 +1,17 @@
+import { TrademarkResult } from '../schemas/trademarkSchema.js';
+
+/**
+ * A registered US mark in class 25 for tests, with the given fields replaced.
+ */
+export function trademarkResult(overrides: Partial<TrademarkResult> = {}): TrademarkResult {
+  return {
+    applicationNumber: '123',
+    mark: 'ACME',
+    owner: 'Acme Corp',
+    country: 'US',
+    filingDate: '2020-01-01',
+    status: 'Registered',
+    niceClasses: [25],
+    ...overrides
+  };
+}
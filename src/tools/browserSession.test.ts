@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Page } from 'playwright';
+import { BrowserSessionManager, sharedBrowserSession } from './browserSession.js';
+import { BrowserTool } from './browserTool.js';
+import { WIPOScraperTool } from './scraperTool.js';
+
+/**
+ * A page that records the calls both tools make on it.
+ */
+function stubPage() {
+  const calls: string[] = [];
+  const page = {
+    goto: async (url: string) => { calls.push(`goto ${url}`); },
+    url: () => 'https://register.test/',
+    waitForSelector: async (selector: string) => {
+      calls.push(`waitForSelector ${selector}`);
+      return null;
+    }
+  };
+  return { page: page as unknown as Page, calls };
+}
+
+describe('tool browser sessions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets tools created without a session act on the same page', async () => {
+    const { page, calls } = stubPage();
+    vi.spyOn(sharedBrowserSession(), 'getPage').mockResolvedValue(page);
+
+    const scraper = new WIPOScraperTool();
+    const browser = new BrowserTool();
+    await scraper.invoke({ action: 'handleCaptcha' });
+    await browser.invoke({ action: 'navigate', url: 'https://register.test/' });
+
+    expect(calls).toEqual(['waitForSelector altcha-widget', 'goto https://register.test/']);
+  });
+
+  it('keeps tools given their own session apart', async () => {
+    const shared = vi.spyOn(sharedBrowserSession(), 'getPage');
+    const session = new BrowserSessionManager();
+    const { page, calls } = stubPage();
+    vi.spyOn(session, 'getPage').mockResolvedValue(page);
+
+    await new BrowserTool(session).invoke({ action: 'navigate', url: 'https://register.test/' });
+
+    expect(calls).toEqual(['goto https://register.test/']);
+    expect(shared).not.toHaveBeenCalled();
+  });
+});
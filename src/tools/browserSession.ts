@@ -0,0 +1,108 @@
+import { Browser, BrowserContext, Page, chromium } from 'playwright';
+import { config } from '../config/config.js';
+import { closeBrowserSession } from '../services/sessionRecorder.js';
+
+export interface BrowserSession {
+  browser: Browser;
+  context: BrowserContext;
+  page: Page;
+  sessionId: string;
+}
+
+/**
+ * Supplies the Playwright page a tool acts on, so tool inputs never carry a page.
+ */
+export interface PageProvider {
+  getPage(): Promise<Page>;
+}
+
+export interface BrowserSessionManagerOptions {
+  /** Open the session's context in this browser instead of launching one; the browser is left open */
+  browser?: Browser;
+}
+
+/**
+ * Launches Chromium with the configured headless mode.
+ */
+export async function launchBrowser(): Promise<Browser> {
+  return chromium.launch({
+    headless: config.browser.headless,
+    args: ['--disable-blink-features=AutomationControlled']
+  });
+}
+
+/**
+ * Opens a context with the configured user agent, viewport and default action timeout.
+ */
+export async function newBrowserContext(browser: Browser): Promise<BrowserContext> {
+  const context = await browser.newContext({
+    userAgent: config.browser.userAgent,
+    viewport: config.browser.viewport
+  });
+  context.setDefaultTimeout(config.browser.timeout);
+  return context;
+}
+
+/**
+ * Wraps a page some other component already manages.
+ */
+export function pageProvider(page: Page): PageProvider {
+  return { getPage: async () => page };
+}
+
+/**
+ * Lazily opens a browser session on first use and keeps it until closed, so
+ * successive tool calls, e.g. from a chat model, share one page.
+ */
+export class BrowserSessionManager implements PageProvider {
+  private session: BrowserSession | null = null;
+  private opening: Promise<BrowserSession> | null = null;
+
+  constructor(private options: BrowserSessionManagerOptions = {}) {}
+
+  get sessionId(): string | undefined {
+    return this.session?.sessionId;
+  }
+
+  async getPage(): Promise<Page> {
+    if (!this.session) {
+      // Concurrent calls share the session being opened rather than launching several
+      this.opening ??= this.open().finally(() => { this.opening = null; });
+      this.session = await this.opening;
+    }
+    return this.session.page;
+  }
+
+  private async open(): Promise<BrowserSession> {
+    const browser = this.options.browser ?? await launchBrowser();
+    const context = await newBrowserContext(browser);
+
+    const page = await context.newPage();
+
+    return {
+      browser,
+      context,
+      page,
+      sessionId: Math.random().toString(36).substring(7)
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.session) {
+      await closeBrowserSession(this.options.browser ? undefined : this.session.browser, this.session.context);
+      this.session = null;
+    }
+  }
+}
+
+let shared: BrowserSessionManager | undefined;
+
+/**
+ * The session tools use when none is given, so a model bound to several
+ * tools drives one page: a search run by WIPOScraperTool can be clicked
+ * through with BrowserTool. Closing it reopens a fresh session on next use.
+ */
+export function sharedBrowserSession(): BrowserSessionManager {
+  shared ??= new BrowserSessionManager();
+  return shared;
+}
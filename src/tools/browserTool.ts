@@ -1,117 +1,93 @@
-import { Browser, BrowserContext, Page, chromium } from 'playwright';
-import { Tool } from '@langchain/core/tools';
+import { StructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-
-export interface BrowserSession {
-  browser: Browser;
-  context: BrowserContext;
-  page: Page;
-  sessionId: string;
-}
-
-const BrowserInputSchema = z
-  .object({
-    input: z.string().optional()
-  })
-  .transform((data) => data.input);
-
-const BrowserActionSchema = z.object({
-  action: z.enum(['navigate', 'click', 'fill', 'wait', 'screenshot', 'extract']),
-  selector: z.string().optional(),
-  value: z.string().optional(),
-  url: z.string().optional(),
-  timeout: z.number().default(30000)
+import { config } from '../config/config.js';
+import { BrowserSessionManager, PageProvider, sharedBrowserSession } from './browserSession.js';
+
+export const BrowserActionSchema = z.object({
+  action: z
+    .enum(['navigate', 'click', 'fill', 'wait', 'screenshot', 'extract'])
+    .describe('Browser action to perform'),
+  selector: z.string().optional().describe('CSS selector of the target element, for click, fill, wait and extract'),
+  value: z.string().optional().describe('Text to type for fill, or milliseconds to wait for wait without a selector'),
+  url: z.string().optional().describe('Absolute URL to open for navigate'),
+  timeout: z.number().optional().describe('Timeout in milliseconds, defaults to the configured browser timeout')
 });
 
-export class BrowserTool extends Tool {
+export type BrowserAction = z.infer<typeof BrowserActionSchema>;
+
+export class BrowserTool extends StructuredTool<typeof BrowserActionSchema> {
   name = 'browser';
-  description = 'Interact with web pages using Playwright browser automation';
+  description = 'Interact with the current web page: navigate to a URL, click or fill elements by CSS selector, wait, take a screenshot or extract element text. Returns a JSON object with success and message.';
 
-  private session: BrowserSession | null = null;
-  schema = BrowserInputSchema;
+  schema = BrowserActionSchema;
 
-  async _call(_inputStr: string): Promise<string> {
-    return 'Use callAction method instead';
+  constructor(private session: PageProvider = sharedBrowserSession()) {
+    super();
   }
 
-  async callAction(input: z.infer<typeof BrowserActionSchema>): Promise<string> {
-    try {
-      if (!this.session) {
-        await this.initializeSession();
-      }
+  protected async _call(input: BrowserAction): Promise<string> {
+    return this.callAction(input);
+  }
 
-      const { action, selector, value, url, timeout } = input;
-      const page = this.session!.page;
+  async callAction(input: BrowserAction): Promise<string> {
+    try {
+      const { action, selector, value, url } = BrowserActionSchema.parse(input);
+      const timeout = input.timeout ?? config.browser.timeout;
+      const page = await this.session.getPage();
 
       switch (action) {
         case 'navigate':
           if (!url) throw new Error('URL is required for navigate action');
           await page.goto(url, { waitUntil: 'networkidle', timeout });
-          return `Navigated to ${url}`;
+          return JSON.stringify({ success: true, message: `Navigated to ${url}`, url: page.url() });
 
         case 'click':
           if (!selector) throw new Error('Selector is required for click action');
           await page.click(selector, { timeout });
-          return `Clicked on ${selector}`;
+          return JSON.stringify({ success: true, message: `Clicked on ${selector}` });
 
         case 'fill':
           if (!selector || !value) throw new Error('Selector and value are required for fill action');
           await page.fill(selector, value, { timeout });
-          return `Filled ${selector} with value`;
+          return JSON.stringify({ success: true, message: `Filled ${selector} with value` });
 
         case 'wait':
           if (selector) {
             await page.waitForSelector(selector, { timeout });
-            return `Element ${selector} is visible`;
+            return JSON.stringify({ success: true, message: `Element ${selector} is visible` });
           } else if (value) {
             await page.waitForTimeout(parseInt(value));
-            return `Waited for ${value}ms`;
+            return JSON.stringify({ success: true, message: `Waited for ${value}ms` });
           }
           throw new Error('Either selector or value (timeout) is required for wait action');
 
-        case 'screenshot':
+        case 'screenshot': {
           const screenshot = await page.screenshot({ fullPage: true });
-          return `Screenshot taken (${screenshot.length} bytes)`;
+          return JSON.stringify({ success: true, message: `Screenshot taken (${screenshot.length} bytes)`, bytes: screenshot.length });
+        }
 
-        case 'extract':
+        case 'extract': {
           if (!selector) throw new Error('Selector is required for extract action');
           const elements = await page.$$(selector);
           const texts = await Promise.all(elements.map(el => el.textContent()));
-          return JSON.stringify(texts.filter(Boolean));
+          const values = texts.filter(Boolean).map(text => text!.trim());
+          return JSON.stringify({ success: true, message: `Extracted ${values.length} elements`, values });
+        }
 
         default:
           throw new Error(`Unknown action: ${action}`);
       }
     } catch (error) {
-      return `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return JSON.stringify({ success: false, message: error instanceof Error ? error.message : 'Unknown error' });
     }
   }
 
-  private async initializeSession(): Promise<void> {
-    const browser = await chromium.launch({
-      headless: process.env.HEADLESS !== 'false',
-      args: ['--disable-blink-features=AutomationControlled']
-    });
-
-    const context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      viewport: { width: 1920, height: 1080 }
-    });
-
-    const page = await context.newPage();
-
-    this.session = {
-      browser,
-      context,
-      page,
-      sessionId: Math.random().toString(36).substring(7)
-    };
-  }
-
+  /**
+   * Closes the tool's browser session unless it was given an externally managed page.
+   */
   async cleanup(): Promise<void> {
-    if (this.session) {
-      await this.session.browser.close();
-      this.session = null;
+    if (this.session instanceof BrowserSessionManager) {
+      await this.session.close();
     }
   }
-}
\ No newline at end of file
+}
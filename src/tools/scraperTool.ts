@@ -1,32 +1,108 @@
-import { Page } from 'playwright';
-import { Tool } from '@langchain/core/tools';
+import { Locator, Page } from 'playwright';
+import { StructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-
-const ScraperInputSchema = z
-  .object({
-    input: z.string().optional()
-  })
-  .transform((data) => data.input);
-
-const ScraperActionSchema = z.object({
-  action: z.enum(['handleCaptcha', 'searchTrademarks', 'extractResults', 'getDetails']),
-  page: z.any(),
-  query: z.string().optional(),
-  url: z.string().optional()
+import {
+  SearchFilterResult,
+  TrademarkSearchParams,
+  TrademarkSearchParamsSchema
+} from '../schemas/trademarkSchema.js';
+import { config } from '../config/config.js';
+import { BrowserSessionManager, PageProvider, sharedBrowserSession } from './browserSession.js';
+import { getLogger } from '../services/logger.js';
+import { findJurisdiction } from '../services/jurisdictions.js';
+import { parseNiceClasses } from '../services/similarity.js';
+
+const logger = getLogger('scraper');
+
+export const ScraperActionSchema = z.object({
+  action: z
+    .enum(['handleCaptcha', 'searchTrademarks', 'extractResults', 'getDetails'])
+    .describe('handleCaptcha opens the database and passes its bot check; searchTrademarks submits a search; extractResults reads the result list; getDetails reads a details page'),
+  query: z.string().optional().describe('Brand name to search for, when params is not given'),
+  params: TrademarkSearchParamsSchema.optional().describe('Full search parameters for searchTrademarks'),
+  limit: z.number().optional().describe('Maximum number of results for extractResults'),
+  url: z.string().optional().describe('Details page URL for getDetails')
 });
 
-export class WIPOScraperTool extends Tool {
+export type ScraperAction = z.infer<typeof ScraperActionSchema>;
+
+type TextSearchType = Exclude<TrademarkSearchParams['searchType'], 'image'>;
+
+const SEARCH_FIELD_LABELS: Record<TextSearchType, string[]> = {
+  brand: ['Brand name', 'Brand'],
+  owner: ['Owner', 'Holder'],
+  number: ['Number', 'Application number', 'Registration number']
+};
+
+// Controls that open the image upload panel, tried in order
+const IMAGE_SEARCH_LABELS = [/search by image/i, /image search/i, /upload (an )?image/i, /^\s*image\s*$/i];
+
+// Message the site shows in place of the result list for a search without matches
+const NO_RESULTS_TEXT = /no (matching )?(results|records)( found)?|0 results/i;
+
+type FacetFilter = Exclude<SearchFilterResult['filter'], 'searchType' | 'liveOnly' | 'expiringWithin'>;
+
+const FILTER_FACET_LABELS: Record<FacetFilter, string[]> = {
+  country: ['Country of filing', 'Designation', 'Office'],
+  nice: ['Nice class'],
+  status: ['Status']
+};
+
+interface ResultsBanner {
+  from: number;
+  to: number;
+  total: number;
+}
+
+/**
+ * Parses the "Displaying X-Y of Z results" banner shown above the result list.
+ */
+export function parseResultsBanner(text: string): ResultsBanner | null {
+  const match = text.match(/Displaying\s+([\d.,\s]+?)\s*[-–]\s*([\d.,\s]+?)\s+of\s+([\d.,\s]+?)\s*results?/i);
+  if (!match) return null;
+
+  const [from, to, total] = match.slice(1, 4).map(n => parseInt(n.replace(/\D/g, '')));
+  if ([from, to, total].some(n => isNaN(n))) return null;
+
+  return { from, to, total };
+}
+
+export class WIPOScraperTool extends StructuredTool<typeof ScraperActionSchema> {
   name = 'wipoScraper';
-  description = 'Specialized tool for scraping WIPO trademark database';
+  description = 'Search the WIPO Global Brand Database in the current browser session. Call handleCaptcha first, then searchTrademarks and extractResults; getDetails reads a result\'s details page. Returns a JSON object with success and the action\'s data.';
 
-  schema = ScraperInputSchema;
+  schema = ScraperActionSchema;
 
-  async _call(_inputStr: string): Promise<string> {
-    return JSON.stringify({ error: 'Use callAction method instead' });
+  constructor(
+    /** Overrides the configured WIPO URL */
+    private baseUrl?: string,
+    private session: PageProvider = sharedBrowserSession()
+  ) {
+    super();
   }
 
-  async callAction(input: z.infer<typeof ScraperActionSchema>): Promise<string> {
-    const { action, page, query, url } = input;
+  protected async _call(input: ScraperAction): Promise<string> {
+    try {
+      return await this.callAction(await this.session.getPage(), input);
+    } catch (error) {
+      return JSON.stringify({ success: false, message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  /**
+   * Closes the tool's browser session unless it was given an externally managed page.
+   */
+  async cleanup(): Promise<void> {
+    if (this.session instanceof BrowserSessionManager) {
+      await this.session.close();
+    }
+  }
+
+  /**
+   * Runs an action on the given page. Tool calls run on the session's page instead.
+   */
+  async callAction(page: Page, input: ScraperAction): Promise<string> {
+    const { action, query, params, limit, url } = input;
 
     try {
       switch (action) {
@@ -34,11 +110,14 @@ export class WIPOScraperTool extends Tool {
           return await this.handleCaptcha(page);
 
         case 'searchTrademarks':
-          if (!query) throw new Error('Query is required for search');
-          return await this.searchTrademarks(page, query);
+          if (!params && !query) throw new Error('Query is required for search');
+          return await this.searchTrademarks(
+            page,
+            params ?? { query: query!, searchType: 'brand', limit: 10 }
+          );
 
         case 'extractResults':
-          return await this.extractSearchResults(page);
+          return await this.extractSearchResults(page, limit ?? 10);
 
         case 'getDetails':
           if (!url) throw new Error('URL is required for details');
@@ -48,7 +127,7 @@ export class WIPOScraperTool extends Tool {
           throw new Error(`Unknown action: ${action}`);
       }
     } catch (error) {
-      return JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return JSON.stringify({ success: false, message: error instanceof Error ? error.message : 'Unknown error' });
     }
   }
 
@@ -58,7 +137,7 @@ export class WIPOScraperTool extends Tool {
       const captchaFrame = await page.waitForSelector('altcha-widget', { timeout: 5000 }).catch(() => null);
 
       if (captchaFrame) {
-        console.log('CAPTCHA widget found, attempting to solve...');
+        logger.info('CAPTCHA widget found, attempting to solve...');
         await page.waitForTimeout(2000);
 
         const solved = await page.evaluate(() => {
@@ -81,7 +160,7 @@ export class WIPOScraperTool extends Tool {
       }
 
       // No CAPTCHA found - this is normal and not an error
-      console.log('No CAPTCHA found on page - proceeding...');
+      logger.debug('No CAPTCHA found on page - proceeding...');
       return JSON.stringify({ success: true, message: 'No CAPTCHA required' });
     } catch (error) {
       return JSON.stringify({
@@ -91,203 +170,543 @@ export class WIPOScraperTool extends Tool {
     }
   }
 
-  private async searchTrademarks(page: Page, query: string): Promise<string> {
+  private async searchTrademarks(page: Page, params: TrademarkSearchParams): Promise<string> {
     try {
-      await page.goto('https://branddb.wipo.int/branddb/en/', { waitUntil: 'networkidle' });
+      await page.goto(this.baseUrl ?? config.wipo.baseUrl, { waitUntil: 'networkidle' });
 
       await this.handleCaptcha(page);
 
-      // Find the Brand name input field (first text input on the page)
-      const searchInput = await page.locator('input[type="text"]').first();
-
-      if (searchInput) {
-        console.log(`Filling search input with query: ${query}`);
-        await searchInput.fill(query);
-
-        // Click the Search button or press Enter
-        try {
-          const searchButton = page.locator('button:has-text("Search")').first();
-          await searchButton.click({ timeout: 2000 });
-          console.log('Clicked Search button');
-        } catch (e) {
-          // Fallback to pressing Enter
-          console.log('Search button not found, pressing Enter');
-          await page.keyboard.press('Enter');
+      if (params.searchType === 'image') {
+        await this.submitImageSearch(page, params.image!);
+      } else {
+        await this.submitTextSearch(page, params.searchType, params.query);
+      }
+
+      await this.waitForResults(page);
+
+      const filters = await this.applyFilters(page, params);
+      filters.unshift({ filter: 'searchType', value: params.searchType, applied: true });
+
+      return JSON.stringify({ success: true, message: 'Search submitted and results loaded', filters });
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        message: `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  private async submitTextSearch(page: Page, searchType: TextSearchType, query: string): Promise<void> {
+    const searchInput = await this.findSearchInput(page, searchType);
+    if (!searchInput) {
+      throw new Error(`Search input for ${searchType} search not found`);
+    }
+
+    logger.debug(`Filling ${searchType} search input with query: ${query}`);
+    await searchInput.fill(query);
+
+    await this.clickSearchButton(page);
+
+    // Wait for navigation to results page
+    try {
+      await page.waitForURL('**/similarname**', { timeout: 10000 });
+      logger.debug('Navigated to results page');
+    } catch (e) {
+      logger.debug('URL change to similarname not detected, continuing...');
+    }
+  }
+
+  /**
+   * Uploads a logo through the image search panel and submits it. The site
+   * may let the user crop the image first; the whole image is searched.
+   */
+  private async submitImageSearch(page: Page, file: string): Promise<void> {
+    const fileInput = page.locator('input[type="file"]').first();
+
+    // The file input is only attached once the image search panel is open
+    if ((await fileInput.count()) === 0) {
+      if (!(await this.openImageSearchPanel(page))) {
+        throw new Error('Image search control not found');
+      }
+      await fileInput.waitFor({ state: 'attached', timeout: 5000 }).catch(() => {
+        throw new Error('Image upload input not found');
+      });
+    }
+
+    logger.debug(`Uploading ${file} for image search`);
+    await fileInput.setInputFiles(file);
+
+    // The innermost element holding both the file input and a Search button is the image panel,
+    // so the text search form's button is never clicked by mistake
+    const panel = page.locator('form, [role="dialog"], [role="tabpanel"], section, div')
+      .filter({ has: page.locator('input[type="file"]') })
+      .filter({ has: page.getByRole('button', { name: /search/i }) })
+      .last();
+    if ((await panel.count()) === 0) {
+      throw new Error('Image search button not found');
+    }
+
+    // The upload shows a preview before the search can be submitted; clicking waits for the button to be enabled
+    await panel.locator('img, canvas').first().waitFor({ state: 'visible', timeout: 10000 })
+      .catch(() => logger.debug('No upload preview shown, submitting anyway'));
+    await panel.getByRole('button', { name: /search/i }).first().click({ timeout: 10000 });
+
+    try {
+      await page.waitForURL('**/similarimage**', { timeout: 10000 });
+      logger.debug('Navigated to image results page');
+    } catch (e) {
+      logger.debug('URL change to similarimage not detected, continuing...');
+    }
+  }
+
+  private async openImageSearchPanel(page: Page): Promise<boolean> {
+    for (const label of IMAGE_SEARCH_LABELS) {
+      const candidates = [
+        page.getByRole('button', { name: label }),
+        page.getByRole('tab', { name: label }),
+        page.getByText(label)
+      ];
+
+      for (const candidate of candidates) {
+        const trigger = candidate.first();
+        if (await trigger.isVisible().catch(() => false)) {
+          logger.debug(`Opening image search panel via ${label}`);
+          await trigger.click();
+          return true;
         }
+      }
+    }
+    return false;
+  }
+
+  private async clickSearchButton(page: Page): Promise<void> {
+    try {
+      const searchButton = page.locator('button:has-text("Search")').first();
+      await searchButton.click({ timeout: 2000 });
+      logger.debug('Clicked Search button');
+    } catch (e) {
+      // Fallback to pressing Enter
+      logger.debug('Search button not found, pressing Enter');
+      await page.keyboard.press('Enter');
+    }
+  }
+
+  /**
+   * Waits for the results banner, a result row or the site's empty-results
+   * message, and throws a layout error when none of them appears.
+   */
+  private async waitForResults(page: Page): Promise<void> {
+    const loaded = page.locator('text=Displaying')
+      .or(this.resultRows(page))
+      .or(page.getByText(NO_RESULTS_TEXT));
+
+    try {
+      await loaded.first().waitFor({ timeout: 10000 });
+      logger.debug('Results loaded');
+    } catch (e) {
+      throw new Error('Results list not found: neither the results banner nor a result row appeared');
+    }
+
+    // Additional wait to ensure results are rendered
+    await page.waitForTimeout(3000);
+  }
+
+  /**
+   * Result rows list the owner, Nice classes and status of a mark, as read by extractCurrentPage.
+   */
+  private resultRows(page: Page): Locator {
+    return page.locator('div, li, tr')
+      .filter({ hasText: 'Owner' })
+      .filter({ hasText: 'Nice class' })
+      .filter({ hasText: 'Status' });
+  }
 
-        // Wait for navigation to results page
-        try {
-          await page.waitForURL('**/similarname**', { timeout: 10000 });
-          console.log('Navigated to results page');
-        } catch (e) {
-          console.log('URL change to similarname not detected, continuing...');
+  private async findSearchInput(page: Page, searchType: TextSearchType): Promise<Locator | null> {
+    const labels = SEARCH_FIELD_LABELS[searchType];
+
+    const lookup = async (): Promise<Locator | null> => {
+      for (const label of labels) {
+        const pattern = new RegExp(`^\\s*${label}\\s*$`, 'i');
+        const candidates = [
+          page.getByLabel(pattern),
+          page.getByPlaceholder(new RegExp(label, 'i')),
+          page.getByRole('textbox', { name: new RegExp(label, 'i') })
+        ];
+
+        for (const candidate of candidates) {
+          const input = candidate.first();
+          if (await input.isVisible().catch(() => false)) {
+            return input;
+          }
         }
+      }
+      return null;
+    };
+
+    let input = await lookup();
+
+    // Owner and number fields only appear once the advanced search panel is open
+    if (!input && searchType !== 'brand') {
+      const advanced = page.getByText(/advanced search/i).first();
+      if (await advanced.isVisible().catch(() => false)) {
+        logger.debug('Opening advanced search panel');
+        await advanced.click();
+        await page.waitForTimeout(1000);
+        input = await lookup();
+      }
+    }
+
+    // The Brand name input is the first text input on the simple search page
+    if (!input && searchType === 'brand') {
+      const first = page.locator('input[type="text"]').first();
+      if (await first.isVisible().catch(() => false)) {
+        input = first;
+      }
+    }
+
+    return input;
+  }
+
+  private async applyFilters(page: Page, params: TrademarkSearchParams): Promise<SearchFilterResult[]> {
+    // Facet options may show a code, e.g. "(US)", or only the office name
+    const requested: Array<{ filter: FacetFilter; value: string; optionLabels?: string[] }> = [];
+
+    if (params.country) {
+      const jurisdiction = findJurisdiction(params.country);
+      requested.push({
+        filter: 'country',
+        value: params.country,
+        optionLabels: jurisdiction ? [jurisdiction.code, jurisdiction.name, ...(jurisdiction.aliases ?? [])] : undefined
+      });
+    }
+    if (params.nice) {
+      parseNiceClasses(params.nice).forEach(value => requested.push({ filter: 'nice', value: String(value) }));
+    }
+    if (params.status) {
+      requested.push({ filter: 'status', value: params.status });
+    }
 
-        // Wait for results to load - look for the "Displaying X-Y of Z results" text
-        try {
-          await page.locator('text=Displaying').waitFor({ timeout: 10000 });
-          console.log('Results loaded');
-        } catch (e) {
-          console.log('Results count text not found, continuing...');
+    const results: SearchFilterResult[] = [];
+    for (const { filter, value, optionLabels } of requested) {
+      try {
+        const applied = await this.applyFacetFilter(page, FILTER_FACET_LABELS[filter], optionLabels ?? [value]);
+        results.push(
+          applied
+            ? { filter, value, applied: true }
+            : { filter, value, applied: false, reason: 'Value not offered by the site for this search' }
+        );
+      } catch (error) {
+        results.push({
+          filter,
+          value,
+          applied: false,
+          reason: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async applyFacetFilter(page: Page, facetLabels: string[], optionLabels: string[]): Promise<boolean> {
+    // Facets on the results page are collapsible sections listing values with checkboxes
+    let facetFound = false;
+    for (const label of facetLabels) {
+      const facet = page.getByRole('button', { name: new RegExp(label, 'i') }).first();
+      if (await facet.isVisible().catch(() => false)) {
+        facetFound = true;
+        if ((await facet.getAttribute('aria-expanded')) === 'false') {
+          await facet.click();
+          await page.waitForTimeout(500);
+        }
+        break;
+      }
+    }
+
+    if (!facetFound) {
+      throw new Error(`Filter panel "${facetLabels[0]}" not found on results page`);
+    }
+
+    for (const value of optionLabels) {
+      const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const option = page.getByRole('checkbox', { name: new RegExp(`(^|\\()\\s*${escaped}\\b`, 'i') }).first();
+
+      if (await option.isVisible().catch(() => false)) {
+        logger.info(`Applying filter ${facetLabels[0]}: ${value}`);
+        await option.check();
+        await this.waitForResults(page);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private async extractSearchResults(page: Page, limit: number): Promise<string> {
+    try {
+      // Wait a bit to ensure results are fully rendered
+      await page.waitForTimeout(2000);
+
+      let banner = await this.readResultsBanner(page);
+      if (banner && banner.total > banner.to && limit > banner.to - banner.from + 1) {
+        if (await this.increasePageSize(page, limit)) {
+          banner = await this.readResultsBanner(page);
+        }
+      }
+
+      const results: any[] = [];
+      const seen = new Set<string>();
+      let pageNumber = 1;
+
+      for (;;) {
+        const pageResults = await this.extractCurrentPage(page);
+        for (const result of pageResults) {
+          const key = result.applicationNumber || `${result.mark}|${result.owner}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            results.push(result);
+          }
         }
 
-        // Additional wait to ensure results are rendered
-        await page.waitForTimeout(3000);
+        logger.debug(`Extracted ${pageResults.length} results from page ${pageNumber}`);
+
+        if (results.length >= limit) break;
+        if (!banner || banner.to >= banner.total) break;
+        if (!(await this.goToNextPage(page, banner))) break;
 
-        return JSON.stringify({ success: true, message: 'Search submitted and results loaded' });
+        pageNumber++;
+        banner = await this.readResultsBanner(page);
       }
 
-      throw new Error('Search input not found');
+      // An empty list is only a result when the site says so; otherwise the rows were not recognised
+      if (results.length === 0 && !banner && !(await page.getByText(NO_RESULTS_TEXT).first().isVisible().catch(() => false))) {
+        throw new Error('Failed to extract results: no result rows or results banner found');
+      }
+
+      logger.info(`Extracted ${results.length} results`);
+      return JSON.stringify({
+        success: true,
+        results: results.slice(0, limit),
+        totalResults: banner?.total ?? results.length,
+        page: pageNumber,
+        pageSize: banner ? banner.to - banner.from + 1 : undefined
+      });
     } catch (error) {
       return JSON.stringify({
         success: false,
-        message: `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        message: `Extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        results: []
       });
     }
   }
 
-  private async extractSearchResults(page: Page): Promise<string> {
+  private async readResultsBanner(page: Page): Promise<ResultsBanner | null> {
+    const text = await page
+      .locator('text=Displaying')
+      .first()
+      .textContent({ timeout: 2000 })
+      .catch(() => null);
+
+    return text ? parseResultsBanner(text) : null;
+  }
+
+  private async increasePageSize(page: Page, limit: number): Promise<boolean> {
     try {
-      // Wait a bit to ensure results are fully rendered
-      await page.waitForTimeout(2000);
+      const select = page.getByRole('combobox', { name: /per page|rows|results/i }).first();
+      if (!(await select.isVisible().catch(() => false))) {
+        return false;
+      }
+
+      const sizes = (await select.locator('option').allTextContents())
+        .map(text => parseInt(text.trim()))
+        .filter(n => !isNaN(n))
+        .sort((x, y) => x - y);
+
+      if (sizes.length === 0) return false;
+
+      const size = sizes.find(n => n >= limit) ?? sizes[sizes.length - 1];
+      logger.debug(`Setting page size to ${size}`);
+      await select.selectOption({ label: String(size) });
+      await this.waitForResults(page);
+      return true;
+    } catch (e) {
+      logger.debug('Page size setting not available, paginating instead');
+      return false;
+    }
+  }
 
-      const results = await page.evaluate(() => {
-        const items: any[] = [];
+  private async goToNextPage(page: Page, banner: ResultsBanner): Promise<boolean> {
+    const candidates = [
+      page.getByRole('button', { name: /next/i }),
+      page.getByRole('link', { name: /next/i }),
+      page.locator('[aria-label*="next" i]')
+    ];
+
+    for (const candidate of candidates) {
+      const next = candidate.first();
+      if (!(await next.isVisible().catch(() => false)) || !(await next.isEnabled().catch(() => false))) {
+        continue;
+      }
 
-        // Based on screenshot, results contain text patterns like:
-        // "NIKE" (brand name)
-        // "Owner" followed by owner name
-        // "Nice class" followed by numbers
-        // "Country of filing" followed by country
-        // "Status" with registered icon
-        // "Number" followed by registration number
+      await next.click();
+
+      // The banner moves to the next range once the new page is rendered
+      try {
+        await page.waitForFunction(
+          (previousFrom: number) => {
+            const match = document.body.innerText.match(/Displaying\s+([\d.,\s]+?)\s*[-–]/i);
+            return match !== null && parseInt(match[1].replace(/\D/g, '')) !== previousFrom;
+          },
+          banner.from,
+          { timeout: 10000 }
+        );
+      } catch (e) {
+        logger.debug('Results banner did not change after paging, continuing...');
+      }
 
-        // Find all elements that contain trademark data
-        // Look for containers that have these keywords
-        const allElements = Array.from(document.querySelectorAll('*'));
-        const resultContainers: Element[] = [];
+      await page.waitForTimeout(1000);
+      return true;
+    }
 
-        allElements.forEach(element => {
-          const text = element.textContent || '';
-          // Check if element contains result-like content
-          if (text.includes('Owner') && text.includes('Nice class') && text.includes('Status')) {
-            // Check if it's not too large (avoid parent containers)
-            if (text.length < 500) {
-              resultContainers.push(element);
-            }
-          }
-        });
+    logger.info('Next page control not found, stopping pagination');
+    return false;
+  }
 
-        // Also try to find result rows by looking for checkbox inputs (each result has a checkbox)
-        const checkboxes = document.querySelectorAll('input[type="checkbox"]');
-        checkboxes.forEach(checkbox => {
-          // Skip "Select all" checkbox
-          if (checkbox.parentElement?.textContent?.includes('Select all')) {
-            return;
+  private async extractCurrentPage(page: Page): Promise<any[]> {
+    return await page.evaluate(() => {
+      const items: any[] = [];
+
+      // Based on screenshot, results contain text patterns like:
+      // "NIKE" (brand name)
+      // "Owner" followed by owner name
+      // "Nice class" followed by numbers
+      // "Country of filing" followed by country
+      // "Status" with registered icon
+      // "Number" followed by registration number
+
+      // Find all elements that contain trademark data
+      // Look for containers that have these keywords
+      const allElements = Array.from(document.querySelectorAll('*'));
+      const resultContainers: Element[] = [];
+
+      allElements.forEach(element => {
+        const text = element.textContent || '';
+        // Check if element contains result-like content
+        if (text.includes('Owner') && text.includes('Nice class') && text.includes('Status')) {
+          // Check if it's not too large (avoid parent containers)
+          if (text.length < 500) {
+            resultContainers.push(element);
           }
+        }
+      });
 
-          // Get the parent container that holds the result data
-          let resultElement = checkbox.parentElement;
-          while (resultElement && resultElement.parentElement) {
-            const text = resultElement.textContent || '';
-            if (text.includes('Owner') || text.includes('Nice class')) {
-              break;
-            }
-            resultElement = resultElement.parentElement;
+      // Also try to find result rows by looking for checkbox inputs (each result has a checkbox)
+      const checkboxes = document.querySelectorAll('input[type="checkbox"]');
+      checkboxes.forEach(checkbox => {
+        // Skip "Select all" checkbox
+        if (checkbox.parentElement?.textContent?.includes('Select all')) {
+          return;
+        }
+
+        // Get the parent container that holds the result data
+        let resultElement = checkbox.parentElement;
+        while (resultElement && resultElement.parentElement) {
+          const text = resultElement.textContent || '';
+          if (text.includes('Owner') || text.includes('Nice class')) {
+            break;
           }
+          resultElement = resultElement.parentElement;
+        }
 
-          if (resultElement) {
-            const text = resultElement.textContent || '';
-            const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-
-            const result: any = {};
-
-            // Extract brand name (usually first line or underlined text)
-            const brandLink = resultElement.querySelector('a');
-            result.mark = brandLink?.textContent?.trim() || lines[0] || '';
-
-            // Extract data using text patterns - improved parsing
-            for (let i = 0; i < lines.length; i++) {
-              const line = lines[i];
-
-              if (line === 'Owner' && i + 1 < lines.length) {
-                result.owner = lines[i + 1];
-                i++; // Skip the next line since we consumed it
-              } else if (line === 'Nice class' && i + 1 < lines.length) {
-                const niceClassStr = lines[i + 1];
-                result.niceClasses = niceClassStr.split(',').map(n => n.trim());
-                i++;
-              } else if (line === 'Country of filing' && i + 1 < lines.length) {
-                result.country = lines[i + 1];
-                i++;
-              } else if (line === 'Status' && i + 1 < lines.length) {
-                const statusLine = lines[i + 1];
-                if (statusLine.includes('Registered')) {
-                  result.status = 'Registered';
-                  // Extract date from status line
-                  const dateMatch = statusLine.match(/\((.*?)\)/);
-                  if (dateMatch) {
-                    result.registrationDate = dateMatch[1];
-                  }
-                } else {
-                  result.status = statusLine.replace(/[✅❌]/g, '').trim();
+        if (resultElement) {
+          const text = resultElement.textContent || '';
+          const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+          const result: any = {};
+
+          // Extract brand name (usually first line or underlined text)
+          const brandLink = resultElement.querySelector('a');
+          result.mark = brandLink?.textContent?.trim() || lines[0] || '';
+
+          // Extract data using text patterns - improved parsing
+          for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+
+            if (line === 'Owner' && i + 1 < lines.length) {
+              result.owner = lines[i + 1];
+              i++; // Skip the next line since we consumed it
+            } else if (line === 'Nice class' && i + 1 < lines.length) {
+              const niceClassStr = lines[i + 1];
+              result.niceClasses = niceClassStr.split(',').map(n => parseInt(n.trim(), 10)).filter(n => n >= 1 && n <= 45);
+              i++;
+            } else if (/^(Filing|Application) date$/i.test(line) && i + 1 < lines.length) {
+              result.filingDate = lines[i + 1];
+              i++;
+            } else if (line === 'Country of filing' && i + 1 < lines.length) {
+              result.country = lines[i + 1];
+              i++;
+            } else if (line === 'Status' && i + 1 < lines.length) {
+              // Keep the text as shown; the formatter maps it onto the status taxonomy
+              const statusLine = lines[i + 1];
+              result.status = statusLine.replace(/[✅❌]/g, '').trim();
+              if (/registered|renewed/i.test(statusLine)) {
+                // Extract date from status line
+                const dateMatch = statusLine.match(/\((.*?)\)/);
+                if (dateMatch) {
+                  result.registrationDate = dateMatch[1];
                 }
-                i++;
-              } else if (line === 'Number' && i + 1 < lines.length) {
-                result.applicationNumber = lines[i + 1];
-                i++;
-              } else if (line === 'IPR' && i + 1 < lines.length) {
-                // Skip IPR type line
-                i++;
               }
+              i++;
+            } else if (line === 'Number' && i + 1 < lines.length) {
+              result.applicationNumber = lines[i + 1];
+              i++;
+            } else if (line === 'IPR' && i + 1 < lines.length) {
+              // Skip IPR type line
+              i++;
             }
+          }
 
-            // Extract image if present
-            const img = resultElement.querySelector('img');
-            if (img && img.src) {
-              result.imageUrl = img.src;
-            }
+          // Extract the link to the record's details page
+          const detailsLink = (resultElement.querySelector('a[href*="detail" i], a[href*="/brand/" i]') || brandLink) as HTMLAnchorElement | null;
+          if (detailsLink?.href && detailsLink.href.startsWith('http') && !detailsLink.href.startsWith(`${location.href}#`)) {
+            result.detailsUrl = detailsLink.href;
+          }
 
-            // Only add if we found meaningful data
-            if (result.mark || result.owner) {
-              result.filingDate = result.registrationDate || ''; // Use registration date as filing date if available
-              items.push(result);
-            }
+          // Extract image if present
+          const img = resultElement.querySelector('img');
+          if (img && img.src) {
+            result.imageUrl = img.src;
           }
-        });
 
-        // If no results found with checkbox method, try text-based extraction
-        if (items.length === 0) {
-          console.log('No results found with checkbox method, trying text-based extraction...');
-
-          // Find any element containing "NIKE" or the search term
-          const nikeElements = Array.from(document.querySelectorAll('*')).filter(el => {
-            const text = el.textContent || '';
-            return text.includes('NIKE') && text.includes('Owner') && el.children.length < 10;
-          });
-
-          nikeElements.forEach(element => {
-            const text = element.textContent || '';
-            const result: any = {
-              mark: 'NIKE',
-              rawText: text.substring(0, 300)
-            };
+          // Only add if we found meaningful data
+          if (result.mark || result.owner) {
             items.push(result);
-          });
+          }
         }
-
-        return items;
       });
 
-      console.log(`Extracted ${results.length} results`);
-      return JSON.stringify({ success: true, results });
-    } catch (error) {
-      return JSON.stringify({
-        success: false,
-        message: `Extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        results: []
-      });
-    }
+      // If no results found with checkbox method, try text-based extraction
+      if (items.length === 0) {
+        console.log('No results found with checkbox method, trying text-based extraction...');
+
+        // Find any element containing "NIKE" or the search term
+        const nikeElements = Array.from(document.querySelectorAll('*')).filter(el => {
+          const text = el.textContent || '';
+          return text.includes('NIKE') && text.includes('Owner') && el.children.length < 10;
+        });
+
+        nikeElements.forEach(element => {
+          const text = element.textContent || '';
+          const result: any = {
+            mark: 'NIKE',
+            rawText: text.substring(0, 300)
+          };
+          items.push(result);
+        });
+      }
+
+      return items;
+    });
   }
 
   private async getTrademarkDetails(page: Page, url: string): Promise<string> {
@@ -301,14 +720,41 @@ export class WIPOScraperTool extends Tool {
           return element?.textContent?.trim() || '';
         };
 
+        // Details pages list each field as a label line followed by its value
+        const lines = (document.body.innerText || '')
+          .split('\n')
+          .map(line => line.trim())
+          .filter(line => line.length > 0);
+
+        const getLabelledValue = (labels: string[]): string => {
+          const index = lines.findIndex(line => labels.some(label => line.toLowerCase() === label.toLowerCase()));
+          return index >= 0 && index + 1 < lines.length ? lines[index + 1] : '';
+        };
+
+        const niceClasses = Array.from(document.querySelectorAll('.nice-class, [data-field="nice_class"]'))
+          .map(el => parseInt(el.textContent || '0'))
+          .filter(n => n > 0);
+
+        if (niceClasses.length === 0) {
+          getLabelledValue(['Nice class', 'Nice classification', 'Nice classes'])
+            .split(/[,;\s]+/)
+            .map(n => parseInt(n))
+            .filter(n => n > 0 && n <= 45)
+            .forEach(n => niceClasses.push(n));
+        }
+
         return {
-          registrationNumber: getTextContent('.registration-number, [data-field="registration_number"]'),
-          registrationDate: getTextContent('.registration-date, [data-field="registration_date"]'),
-          expiryDate: getTextContent('.expiry-date, [data-field="expiry_date"]'),
-          niceClasses: Array.from(document.querySelectorAll('.nice-class, [data-field="nice_class"]'))
-            .map(el => parseInt(el.textContent || '0'))
-            .filter(n => n > 0),
+          registrationNumber: getTextContent('.registration-number, [data-field="registration_number"]')
+            || getLabelledValue(['Registration number', 'Registration no.']),
+          filingDate: getTextContent('.filing-date, [data-field="filing_date"], [data-field="application_date"]')
+            || getLabelledValue(['Filing date', 'Application date']),
+          registrationDate: getTextContent('.registration-date, [data-field="registration_date"]')
+            || getLabelledValue(['Registration date']),
+          expiryDate: getTextContent('.expiry-date, [data-field="expiry_date"]')
+            || getLabelledValue(['Expiry date', 'Expiration date']),
+          niceClasses,
           goodsServices: getTextContent('.goods-services, [data-field="goods_services"]')
+            || getLabelledValue(['Goods and services', 'Goods & services', 'List of goods and services'])
         };
       });
 